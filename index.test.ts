@@ -0,0 +1,337 @@
+// @vitest-environment jsdom
+import { readFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+import { afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+
+// The app module wires itself to the page when it loads, so the page has to exist first.
+document.documentElement.innerHTML = readFileSync(resolve(__dirname, 'index.html'), 'utf8')
+    .replace(/<script[\s\S]*?<\/script>/gi, '');
+
+let app: typeof import('./index.tsx');
+beforeAll(async () => {
+    localStorage.setItem('ai_workstation_provider', 'scripted');
+    app = await import('./index.tsx');
+    app.initializeAppForUser('tester');
+});
+
+const HOSTILE = [
+    '<img src=x onerror="alert(1)">',
+    '<svg onload="alert(1)"></svg>',
+    '<a href="javascript:alert(1)">click</a>',
+    '<script>alert(1)</script>',
+    '"><img src=x onerror=alert(1)>',
+];
+
+/** Fails if anything under `root` could run script. */
+const expectInert = (root: ParentNode) => {
+    expect(root.querySelectorAll('script, iframe, object, embed, svg')).toHaveLength(0);
+    for (const el of Array.from(root.querySelectorAll('*'))) {
+        for (const { name, value } of Array.from(el.attributes)) {
+            expect(name, `${el.tagName} has ${name}`).not.toMatch(/^on/i);
+            if (name === 'href' || name === 'src') expect(value.trim()).not.toMatch(/^javascript:/i);
+        }
+    }
+};
+
+describe('escapeHtml', () => {
+    it('escapes markup and quotes', () => {
+        expect(app.escapeHtml('<script>"it\'s" & more</script>')).toBe('&#60;script&#62;&#34;it&#39;s&#34; &#38; more&#60;/script&#62;');
+    });
+
+    it('treats missing values as empty text', () => {
+        expect(app.escapeHtml(undefined)).toBe('');
+        expect(app.escapeHtml(null)).toBe('');
+    });
+});
+
+describe('safeUrl', () => {
+    it('allows web and mail links', () => {
+        expect(app.safeUrl('https://example.com/a?b=1', 'link')).toBe('https://example.com/a?b=1');
+        expect(app.safeUrl('mailto:someone@example.com', 'link')).toBe('mailto:someone@example.com');
+    });
+
+    it('rejects script and HTML URLs', () => {
+        expect(app.safeUrl('javascript:alert(1)', 'link')).toBeNull();
+        expect(app.safeUrl('  JaVaScRiPt:alert(1)', 'link')).toBeNull();
+        expect(app.safeUrl('\tjavascript:alert(1)', 'image')).toBeNull();
+        expect(app.safeUrl('data:text/html,<script>alert(1)</script>', 'link')).toBeNull();
+        expect(app.safeUrl('data:text/html;base64,PHNjcmlwdD4=', 'image')).toBeNull();
+        expect(app.safeUrl('vbscript:msgbox', 'link')).toBeNull();
+    });
+
+    it('allows image data URLs only as images', () => {
+        const png = 'data:image/png;base64,iVBORw0KGgo=';
+        expect(app.safeUrl(png, 'image')).toBe(png);
+        expect(app.safeUrl(png, 'link')).toBeNull();
+    });
+
+    it('rejects values that are not strings', () => {
+        expect(app.safeUrl({ toString: () => 'https://example.com' }, 'link')).toBeNull();
+    });
+});
+
+describe('renderLink', () => {
+    it('renders safe links that open in a new tab', () => {
+        const holder = document.createElement('div');
+        holder.innerHTML = app.renderLink('https://example.com/?q="x"', '<b>Example</b>');
+        const link = holder.querySelector('a')!;
+        expect(link.getAttribute('href')).toBe('https://example.com/?q="x"');
+        expect(link.target).toBe('_blank');
+        expect(link.rel).toContain('noopener');
+        expect(link.textContent).toBe('<b>Example</b>');
+    });
+
+    it('falls back to plain text for unsafe URLs', () => {
+        expect(app.renderLink('javascript:alert(1)', '<i>x</i>')).toBe('&#60;i&#62;x&#60;/i&#62;');
+    });
+});
+
+describe('renderImageTag', () => {
+    it('escapes the alt text', () => {
+        const holder = document.createElement('div');
+        holder.innerHTML = app.renderImageTag('https://example.com/a.png', '" onerror="alert(1)');
+        expectInert(holder);
+        expect(holder.querySelector('img')!.alt).toBe('" onerror="alert(1)');
+    });
+
+    it('renders nothing for unsafe sources', () => {
+        expect(app.renderImageTag('javascript:alert(1)', 'x')).toBe('');
+        expect(app.renderImageTag('" onerror="alert(1)', 'x')).toBe('');
+    });
+});
+
+describe('cleanDocumentHtml', () => {
+    const clean = (html: string) => {
+        const holder = document.createElement('div');
+        holder.innerHTML = app.cleanDocumentHtml(html);
+        return holder;
+    };
+
+    it.each(HOSTILE)('neutralizes %s', (payload) => {
+        expectInert(clean(`<p>before</p>${payload}<p>after</p>`));
+    });
+
+    it('drops scripts with their contents', () => {
+        expect(clean('<p>a</p><script>alert(1)</script>').textContent).not.toContain('alert');
+    });
+
+    it('keeps safe formatting and links', () => {
+        const holder = clean('<p><strong>bold</strong> <a href="https://example.com" onclick="x()">link</a></p>');
+        expectInert(holder);
+        expect(holder.querySelector('strong')?.textContent).toBe('bold');
+        expect(holder.querySelector('a')?.getAttribute('href')).toBe('https://example.com');
+    });
+
+    it('unwraps links with unsafe URLs', () => {
+        const holder = clean('<p><a href=" JaVaScRiPt:alert(1)">link</a></p>');
+        expect(holder.querySelector('a')).toBeNull();
+        expect(holder.textContent).toBe('link');
+    });
+});
+
+describe('renderSearchResults', () => {
+    it('shows hostile titles, URLs and summaries as text', () => {
+        const windowEl = app.openBrowser();
+        app.renderSearchResults(windowEl, {
+            query: HOSTILE[4],
+            summary: HOSTILE.join(' '),
+            sources: HOSTILE.map(payload => ({ web: { uri: `javascript:${payload}`, title: payload } })),
+        });
+        const content = windowEl.querySelector('.browser-content')!;
+        expectInert(content);
+        const titles = Array.from(content.querySelectorAll('.google-result-title')).map(title => title.textContent);
+        expect(titles).toEqual(HOSTILE);
+        expect((content.querySelector('.google-search-bar') as HTMLInputElement).value).toBe(HOSTILE[4]);
+    });
+});
+
+describe('renderExplorer', () => {
+    beforeEach(() => {
+        const db = app.getDatabase();
+        for (const payload of HOSTILE) {
+            db.files.documents[`${payload}.txt`] = { content: '<p>x</p>', modified: Date.now() };
+        }
+        db.files.images['"><img src=x onerror=alert(1)>.png'] = { content: 'javascript:alert(1)', modified: Date.now() };
+        app.saveDatabase(db);
+    });
+
+    it('shows hostile file names as text', async () => {
+        const windowEl = await app.openFileExplorer();
+        await app.renderExplorer(windowEl);
+        const body = windowEl.querySelector('.window-body')!;
+        expectInert(body);
+        const names = Array.from(body.querySelectorAll<HTMLElement>('[data-filename]')).map(el => el.dataset.filename);
+        for (const payload of HOSTILE) expect(names).toContain(`${payload}.txt`);
+    });
+});
+
+describe('databases from before settings existed', () => {
+    beforeEach(() => {
+        localStorage.setItem('ai_workstation_data_tester', JSON.stringify({ files: { documents: {}, images: {} }, sessions: {} }));
+    });
+
+    it('saves files and keeps their history', async () => {
+        await app.saveFile('documents', 'old.txt', '<p>one</p>');
+        await app.saveFile('documents', 'old.txt', '<p>two</p>');
+        const file = app.getDatabase().files.documents['old.txt'];
+        expect(file.content).toBe('<p>two</p>');
+        expect(file.revisions.map((revision: { content: string }) => revision.content)).toEqual(['<p>one</p>']);
+    });
+
+    it('changes the revision limit', () => {
+        app.setRevisionLimit(3);
+        expect(app.getDatabase().settings.revisionLimit).toBe(3);
+    });
+});
+
+describe('closing the page', () => {
+    it('autosaves every dirty window before unloading', () => {
+        const edit = (windowEl: HTMLElement, html: string) => {
+            const body = windowEl.querySelector('.window-body')!;
+            body.innerHTML = html;
+            body.dispatchEvent(new Event('input', { bubbles: true }));
+        };
+        edit(app.openDocumentWriter({ name: 'first.txt', content: '' }), '<p>first</p>');
+        edit(app.openDocumentWriter({ name: 'second.txt', content: '' }), '<p>second</p>');
+        const untitled = app.openDocumentWriter();
+        edit(untitled, '<p>draft</p>');
+        window.dispatchEvent(new Event('beforeunload', { cancelable: true }));
+        const db = app.getDatabase();
+        expect(db.files.documents['first.txt']?.content).toBe('<p>first</p>');
+        expect(db.files.documents['second.txt']?.content).toBe('<p>second</p>');
+        expect(db.drafts[untitled.id]?.content).toBe('<p>draft</p>');
+    });
+});
+
+describe('saving when storage is full', () => {
+    const edit = (windowEl: HTMLElement, html: string) => {
+        const body = windowEl.querySelector('.window-body')!;
+        body.innerHTML = html;
+        body.dispatchEvent(new Event('input', { bubbles: true }));
+    };
+
+    afterEach(() => vi.restoreAllMocks());
+
+    it('keeps unsaved changes and drafts', async () => {
+        const named = app.openDocumentWriter({ name: 'full.txt', content: '' });
+        const untitled = app.openDocumentWriter();
+        edit(named, '<p>named</p>');
+        edit(untitled, '<p>draft</p>');
+        await app.autosaveOpenFiles();
+        edit(named, '<p>named, edited</p>');
+        edit(untitled, '<p>draft, edited</p>');
+
+        vi.spyOn(Storage.prototype, 'setItem').mockImplementation(() => { throw new Error('QuotaExceededError'); });
+        await app.autosaveOpenFiles();
+        expect(named.dataset.dirty).toBeDefined();
+        expect(untitled.dataset.dirty).toBeDefined();
+
+        vi.spyOn(window, 'prompt').mockReturnValue('untitled.txt');
+        const confirmed = app.confirmUnsavedChanges([named, untitled], 'closing');
+        document.getElementById('unsaved-save-btn')!.click();
+        expect(await confirmed).toBe(false);
+        expect(named.dataset.dirty).toBeDefined();
+        expect(untitled.dataset.dirty).toBeDefined();
+
+        vi.restoreAllMocks();
+        const db = app.getDatabase();
+        expect(db.files.documents['full.txt']?.content).toBe('<p>named</p>');
+        expect(db.files.documents['untitled.txt']).toBeUndefined();
+        expect(db.drafts[untitled.id]?.content).toBe('<p>draft</p>');
+    });
+});
+
+describe('offline images', () => {
+    it('can be shown and placed in a document', async () => {
+        // The windows are opened directly, since moving the cursor to an icon needs a real layout.
+        app.openImageStudio();
+        app.openDocumentWriter();
+        await app.executeAction({ action: 'generate_image', prompt: 'a cat' });
+        const studioImage = document.querySelector<HTMLImageElement>('[data-app="studio"] .image-container img');
+        expect(studioImage?.src).toMatch(/^data:image\/svg\+xml;base64,/);
+        await app.executeAction({ action: 'place_image_in_doc' });
+        const placed = document.querySelector<HTMLImageElement>('[data-app="docs"] .window-body img');
+        expect(placed?.src).toBe(studioImage!.src);
+        expect(app.cleanDocumentHtml(placed!.parentElement!.innerHTML)).toContain(studioImage!.src);
+    }, 15000);
+});
+
+describe('source pages', () => {
+    const sources = [{ web: { uri: 'https://example.com', title: 'Example' } }];
+
+    it.each([
+        { label: 'no citations', citations: undefined },
+        { label: 'an empty citation list', citations: [] },
+    ])('show the whole summary for a search with $label', ({ citations }) => {
+        const windowEl = app.openBrowser();
+        app.renderPageView(windowEl, { query: 'q', summary: 'The whole summary.', sources, citations, sourceIndex: 0 });
+        const content = windowEl.querySelector('.browser-content')!;
+        expect(content.textContent).toContain('The whole summary.');
+        expect(content.querySelector('.no-citations')).toBeNull();
+    });
+
+    it('show only what the source is cited for', () => {
+        const windowEl = app.openBrowser();
+        const citations = [{ text: 'Cited part.', sources: [1] }];
+        app.renderPageView(windowEl, { query: 'q', summary: 'Cited part. Other part.', sources: [...sources, ...sources], citations, sourceIndex: 0 });
+        expect(windowEl.querySelector('.no-citations')).not.toBeNull();
+    });
+});
+
+describe('Image Studio gallery', () => {
+    it('keeps the latest images, with thumbnails, and saves only the selected one in sessions', async () => {
+        const studio = app.openImageStudio();
+        for (const prompt of ['one', 'two', 'three', 'four']) {
+            await app.executeAction({ action: 'generate_image', prompt, count: 4 });
+        }
+        const thumbs = studio.querySelectorAll('.gallery-thumb');
+        expect(thumbs).toHaveLength(12);
+        thumbs.forEach(thumb => expect(thumb.querySelector('img')).not.toBeNull());
+        expect(studio.querySelector('.gallery-thumb.active')?.getAttribute('data-index')).toBe('8');
+        expect(studio.querySelector('.gallery-thumb.active')?.getAttribute('title')).toBe('four');
+
+        await app.saveSession();
+        const sessions = Object.values(app.getDatabase().sessions) as any[];
+        const saved = sessions[sessions.length - 1].openWindows.find((win: { app: string }) => win.app === 'studio');
+        expect(saved.studioState.images).toHaveLength(1);
+        expect(saved.studioState.images[0].prompt).toBe('four');
+        expect(saved.content).toBe('');
+    }, 20000);
+});
+
+describe('macro recorder', () => {
+    afterEach(() => vi.restoreAllMocks());
+
+    it('records deletions as steps that repeat them', () => {
+        const windowEl = app.openBrowser();
+        const field = windowEl.querySelector<HTMLInputElement>('.address-bar')!;
+        const selector = '.app-window[data-app="browser"] .address-bar';
+        const input = (inputType: string, data: string | null = null) =>
+            field.dispatchEvent(new InputEvent('beforeinput', { inputType, data, bubbles: true, cancelable: true }));
+        field.value = 'hello world';
+        field.setSelectionRange(11, 11);
+
+        app.startMacroRecording();
+        input('deleteWordBackward');
+        input('insertText', 'x');
+        input('deleteContentBackward');
+        input('deleteContentBackward');
+        input('deleteContentForward');
+        field.setSelectionRange(0, 2);
+        input('deleteByCut');
+        input('deleteContentBackward');
+        vi.spyOn(window, 'prompt').mockReturnValue('deletions');
+        app.stopMacroRecording();
+
+        expect(app.getMacros().deletions.sequence).toEqual([
+            { action: 'select_text', selector, start: 6, end: 11 },
+            { action: 'press_key', key: 'Backspace' },
+            { action: 'press_key', key: 'Backspace' },
+            { action: 'press_key', key: 'Delete' },
+            { action: 'select_text', selector, start: 0, end: 2 },
+            { action: 'key_combo', keys: 'Ctrl+X' },
+            { action: 'select_text', selector, start: 0, end: 2 },
+            { action: 'press_key', key: 'Backspace' },
+        ]);
+    });
+});
@@ -16,27 +16,404 @@ try {
     console.error(aiInitializationError);
 }
 
+// --- Action Protocol ---
+// The single source of truth for the actions the model may use. The system
+// instruction, the response schema and the validator are all derived from
+// `actionSpecs`, so adding an action means adding it to the `Action` union and here.
+type Point = [number, number];
+/** A polyline on the Doodle Pad. A line with `fill` is closed and filled. */
+interface DoodleLine { points: Point[], color?: string, width?: number, fill?: string }
+interface DocumentEdit { find: string, replace: string }
+type Action =
+    | { action: 'speak', text: string }
+    | { action: 'move_mouse_to_element', selector: string }
+    | { action: 'click' }
+    | { action: 'type', text: string, enter?: boolean }
+    | { action: 'press_key', key: string }
+    | { action: 'key_combo', keys: string }
+    | { action: 'select_text', selector?: string, text?: string, start?: number, end?: number }
+    | { action: 'clear_field', selector?: string }
+    | { action: 'format_text', style: string, text?: string, url?: string }
+    | { action: 'edit_document', edits: DocumentEdit[], all?: boolean }
+    | { action: 'scroll', selector: string, pixels: number }
+    | { action: 'open_tab', query?: string }
+    | { action: 'switch_tab', index: number }
+    | { action: 'go_back' }
+    | { action: 'bookmark_page' }
+    | { action: 'clip_to_document' }
+    | { action: 'doodle', lines: DoodleLine[] }
+    | { action: 'draw_with_cursor', lines: DoodleLine[] }
+    | { action: 'generate_image', prompt: string, count?: number, aspect_ratio?: string, style?: string, negative_prompt?: string }
+    | { action: 'find_image', prompt: string }
+    | { action: 'place_image_in_doc' }
+    | { action: 'list_files' }
+    | { action: 'open_file', filename: string }
+    | { action: 'save_active_file', filename: string }
+    | { action: 'delete_file', filename: string }
+    | { action: 'export_file', filename: string, format: string }
+    | { action: 'drag_window', selector: string, x: number, y: number }
+    | { action: 'resize_window', selector: string, width: number, height: number }
+    | { action: 'minimize_window', selector: string }
+    | { action: 'maximize_window', selector: string }
+    | { action: 'restore_window', selector: string }
+    | { action: 'focus_window', selector: string }
+    | { action: 'close_window', selector: string }
+    | { action: 'tile_windows', layout: string }
+    | { action: 'run_macro', name: string };
+type ActionName = Action['action'];
+
+// Fields with the same name must use the same type in every action, since they share one schema property.
+type FieldType = 'string' | 'number' | 'boolean' | 'lines' | 'edits';
+interface FieldSpec { type: FieldType, optional?: boolean, hint?: string }
+interface ActionSpec { fields: Record<string, FieldSpec>, description: string }
+
+const actionSpecs: Record<ActionName, ActionSpec> = {
+    speak: {
+        fields: { text: { type: 'string' } },
+        description: "Say something to the user in the chat to explain what you're doing.",
+    },
+    move_mouse_to_element: {
+        fields: { selector: { type: 'string', hint: '"#element-id"' } },
+        description: 'Move the mouse cursor to the center of a given DOM element with a natural, curved motion.',
+    },
+    click: {
+        fields: {},
+        description: 'Simulate a left mouse click at the current cursor position. This will focus the clicked element (like an input field).',
+    },
+    type: {
+        fields: { text: { type: 'string' }, enter: { type: 'boolean', optional: true } },
+        description: "Types text at the caret of the active window's focused field, replacing any selected text. In the Document Writer it types at the caret (or at the end if nothing was clicked). The Document Writer supports rich text and images.",
+    },
+    press_key: {
+        fields: { key: { type: 'string', hint: '"Enter" | "Tab" | "Backspace" | "Delete" | "Escape" | "ArrowLeft" | "Home" | ...' } },
+        description: 'Presses a single key in the focused field, with its normal effect (e.g. Backspace deletes the character before the caret, Tab moves to the next field).',
+    },
+    key_combo: {
+        fields: { keys: { type: 'string', hint: '"Ctrl+A"' } },
+        description: 'Presses a keyboard shortcut in the focused field: Ctrl+A selects all, Ctrl+C / Ctrl+X copy or cut the selection to the clipboard, Ctrl+V pastes, Shift+ArrowLeft extends the selection.',
+    },
+    select_text: {
+        fields: {
+            selector: { type: 'string', optional: true },
+            text: { type: 'string', optional: true },
+            start: { type: 'number', optional: true },
+            end: { type: 'number', optional: true },
+        },
+        description: "Selects text in a field or document (the focused one if no selector is given): the first occurrence of \"text\", the character range start–end, or everything if neither is given. A following \"type\" replaces the selection.",
+    },
+    clear_field: {
+        fields: { selector: { type: 'string', optional: true } },
+        description: 'Empties a text field or document (the focused one if no selector is given).',
+    },
+    format_text: {
+        fields: {
+            style: { type: 'string', hint: '"bold" | "italic" | "underline" | "strikethrough" | "heading1" | "heading2" | "heading3" | "paragraph" | "quote" | "code" | "bullet_list" | "numbered_list" | "link" | "unlink" | "align_left" | "align_center" | "align_right" | "clear"' },
+            text: { type: 'string', optional: true },
+            url: { type: 'string', optional: true },
+        },
+        description: 'Formats text in the active Document Writer: the first occurrence of "text" if given, otherwise the current selection. Heading, paragraph, quote, code, list and align styles apply to the whole paragraph. "link" needs a "url". Applying bold/italic/underline/strikethrough again removes it.',
+    },
+    edit_document: {
+        fields: {
+            edits: { type: 'edits', hint: '[{"find": "exact text", "replace": "new text"}, ...]' },
+            all: { type: 'boolean', optional: true },
+        },
+        description: 'Edits the active Document Writer in place: each edit replaces the first occurrence of "find" (or every occurrence with "all": true) with "replace", as plain text. "find" must match the document text exactly and may span paragraphs (joined by a newline); an empty "replace" deletes it. To rewrite a section, use the whole section as "find". The user reviews the change and accepts or rejects it.',
+    },
+    scroll: {
+        fields: { selector: { type: 'string' }, pixels: { type: 'number' } },
+        description: 'Scrolls a specific element (like a window body) down by a certain number of pixels. The selector must point to the scrollable element.',
+    },
+    open_tab: {
+        fields: { query: { type: 'string', optional: true } },
+        description: 'Opens a new tab in the Web Browser (opening the browser if needed) and makes it the active tab. With a "query", it also searches for it and waits for the results.',
+    },
+    switch_tab: {
+        fields: { index: { type: 'number', hint: '1' } },
+        description: 'Shows another tab of the Web Browser, by its number in the tab list (starting at 1). The desktop state lists the tabs.',
+    },
+    go_back: {
+        fields: {},
+        description: "Goes back one page in the Web Browser's active tab, e.g. from a result's page to the results, or to the previous search.",
+    },
+    bookmark_page: {
+        fields: {},
+        description: "Bookmarks the page shown in the Web Browser's active tab (a result's page or a results page), or removes its bookmark if it already has one. Bookmarks and recent searches are listed on the browser's home page (a new tab).",
+    },
+    clip_to_document: {
+        fields: {},
+        description: "Appends what the source open in the Web Browser says, with a link to it, to the most recently used Document Writer window (or a new document). Open a search result's page first.",
+    },
+    doodle: {
+        fields: { lines: { type: 'lines', hint: '[{"points": [[x,y], [x,y], ...], "color": "#1e88e5", "width": 4, "fill": "#ffeb3b"}, ...]' } },
+        description: 'A high-level action that opens the doodle pad and draws a series of lines. Points are canvas coordinates from [0,0] at the top left; the desktop state lists the canvas size under the Doodle Pad window (if it isn\'t open yet, stay within 400x300). Each line is stroked in its "color" (any CSS color, default black) and "width" in pixels (default 2); a line with a "fill" color is closed and filled, e.g. for a sun or a roof. All three are optional. The drawing can be undone in one step.',
+    },
+    draw_with_cursor: {
+        fields: { lines: { type: 'lines', hint: '[{"points": [[x,y], [x,y], ...]}]' } },
+        description: 'Move the cursor along a specific path on the desktop for expressive gestures.',
+    },
+    generate_image: {
+        fields: {
+            prompt: { type: 'string' },
+            count: { type: 'number', optional: true, hint: '1' },
+            aspect_ratio: { type: 'string', optional: true, hint: '"1:1" | "3:4" | "4:3" | "9:16" | "16:9"' },
+            style: { type: 'string', optional: true, hint: '"photo" | "illustration" | "watercolor" | "sketch" | "pixel_art" | "3d_render"' },
+            negative_prompt: { type: 'string', optional: true },
+        },
+        description: 'Opens the Image Studio and generates images from the given text prompt: "count" of them (1-4, default 1) in the "aspect_ratio" (default "1:1") and "style" given. "negative_prompt" describes what to leave out. The results are added to the studio\'s gallery; the first one is selected and copied to the clipboard.',
+    },
+    find_image: {
+        fields: { prompt: { type: 'string' } },
+        description: 'A high-level action that generates an image in the background (without opening a window) and copies it to the clipboard, ready to be placed.',
+    },
+    place_image_in_doc: {
+        fields: {},
+        description: 'Places the image from the clipboard into the Document Writer app.',
+    },
+    list_files: {
+        fields: {},
+        description: 'Opens the File Explorer to show all saved files.',
+    },
+    open_file: {
+        fields: { filename: { type: 'string' } },
+        description: 'Opens a file from the file system.',
+    },
+    save_active_file: {
+        fields: { filename: { type: 'string' } },
+        description: 'Saves the content of the currently active window with the given filename.',
+    },
+    delete_file: {
+        fields: { filename: { type: 'string' } },
+        description: 'Deletes a file from the file system.',
+    },
+    export_file: {
+        fields: { filename: { type: 'string' }, format: { type: 'string', hint: '"md" | "html" | "txt" | "pdf"' } },
+        description: "Exports a saved document so the user can hand it off: downloads it as Markdown, a standalone HTML page (images embedded) or plain text, or opens the print dialog for PDF. Save the document first.",
+    },
+    drag_window: {
+        fields: { selector: { type: 'string', hint: '"#window-id"' }, x: { type: 'number' }, y: { type: 'number' } },
+        description: 'Drags a window to a new position on the desktop. The coordinates are relative to the top-left of the desktop.',
+    },
+    resize_window: {
+        fields: { selector: { type: 'string', hint: '"#window-id"' }, width: { type: 'number' }, height: { type: 'number' } },
+        description: 'Resizes a window to the given size in pixels, keeping its top-left corner. Windows are at least 300x200 and never larger than the desktop.',
+    },
+    minimize_window: {
+        fields: { selector: { type: 'string', hint: '"#window-id"' } },
+        description: 'Hides a window without closing it. Focusing it again brings it back.',
+    },
+    maximize_window: {
+        fields: { selector: { type: 'string', hint: '"#window-id"' } },
+        description: 'Makes a window fill the desktop.',
+    },
+    restore_window: {
+        fields: { selector: { type: 'string', hint: '"#window-id"' } },
+        description: 'Brings a minimized window back, or returns a maximized window to its previous size and position.',
+    },
+    focus_window: {
+        fields: { selector: { type: 'string', hint: '"#window-id"' } },
+        description: 'Brings a window to the front and makes it the active window (un-minimizing it if needed).',
+    },
+    close_window: {
+        fields: { selector: { type: 'string', hint: '"#window-id"' } },
+        description: 'Closes a window. If it has unsaved changes, the user is asked whether to save or discard them first.',
+    },
+    tile_windows: {
+        fields: { layout: { type: 'string', hint: '"side-by-side" | "grid" | "cascade"' } },
+        description: 'Arranges all visible windows: side by side in columns, in a grid, or cascaded from the top-left.',
+    },
+    run_macro: {
+        fields: { name: { type: 'string' } },
+        description: "Replays one of the user's saved macros (a recorded sequence of actions) by name. The desktop state lists the available macros.",
+    },
+};
+const actionNames = Object.keys(actionSpecs) as ActionName[];
+
+const describeActions = (): string => actionNames.map((name, index) => {
+    const fields = Object.entries(actionSpecs[name].fields).map(([field, spec]) => {
+        const hint = spec.hint || (spec.type === 'string' ? '"string"' : spec.type);
+        return `, "${field}": ${hint}${spec.optional ? ' (optional)' : ''}`;
+    }).join('');
+    const number = `${index + 1}.`.padEnd(3);
+    return `${number} {"action": "${name}"${fields}}: ${actionSpecs[name].description}`;
+}).join('\n');
+
+const fieldSchemas: Record<FieldType, object> = {
+    string: { type: Type.STRING, nullable: true },
+    number: { type: Type.NUMBER, nullable: true },
+    boolean: { type: Type.BOOLEAN, nullable: true },
+    lines: {
+        type: Type.ARRAY,
+        nullable: true,
+        items: {
+            type: Type.OBJECT,
+            properties: {
+                points: {
+                    type: Type.ARRAY,
+                    items: {
+                        type: Type.ARRAY,
+                        items: {
+                            type: Type.NUMBER,
+                        },
+                    },
+                },
+                color: { type: Type.STRING, nullable: true },
+                width: { type: Type.NUMBER, nullable: true },
+                fill: { type: Type.STRING, nullable: true },
+            },
+            required: ['points'],
+        },
+    },
+    edits: {
+        type: Type.ARRAY,
+        nullable: true,
+        items: {
+            type: Type.OBJECT,
+            properties: {
+                find: { type: Type.STRING },
+                replace: { type: Type.STRING },
+            },
+            required: ['find', 'replace'],
+        },
+    },
+};
+
+const buildActionItemSchema = () => {
+    const properties: Record<string, object> = {
+        action: { type: Type.STRING, format: 'enum', enum: actionNames },
+    };
+    for (const spec of Object.values(actionSpecs)) {
+        for (const [field, fieldSpec] of Object.entries(spec.fields)) {
+            properties[field] = fieldSchemas[fieldSpec.type];
+        }
+    }
+    return { type: Type.OBJECT, properties, required: ['action'] };
+};
+
+// Coerces a raw field value to its declared type. Returns `undefined` when the value can't be used.
+const coerceField = (type: FieldType, value: unknown, repairs: string[]): unknown => {
+    switch (type) {
+        case 'string':
+            if (typeof value === 'number') {
+                repairs.push('converted a number to text');
+                return String(value);
+            }
+            return typeof value === 'string' && value.length > 0 ? value : undefined;
+        case 'number': {
+            if (typeof value === 'number') return Number.isFinite(value) ? value : undefined;
+            const parsed = typeof value === 'string' ? parseFloat(value) : NaN;
+            if (!Number.isFinite(parsed)) return undefined;
+            repairs.push(`read "${value}" as a number`);
+            return parsed;
+        }
+        case 'boolean':
+            if (typeof value === 'boolean') return value;
+            if (value === 'true' || value === 'false') {
+                repairs.push(`read "${value}" as a boolean`);
+                return value === 'true';
+            }
+            return undefined;
+        case 'lines': {
+            if (!Array.isArray(value)) return undefined;
+            let droppedPoints = 0;
+            let droppedStyles = 0;
+            const lines: DoodleLine[] = [];
+            for (const raw of value) {
+                // A bare list of points is an unstyled line.
+                const line = Array.isArray(raw) ? { points: raw } : raw;
+                if (!line || !Array.isArray(line.points)) continue;
+                const points = line.points.filter((point: unknown) => {
+                    const ok = Array.isArray(point) && point.length >= 2 && Number.isFinite(point[0]) && Number.isFinite(point[1]);
+                    if (!ok) droppedPoints++;
+                    return ok;
+                }).map((point: number[]) => [point[0], point[1]] as Point);
+                if (points.length === 0) continue;
+                const coerced: DoodleLine = { points };
+                for (const key of ['color', 'fill'] as const) {
+                    if (typeof line[key] === 'string' && line[key]) coerced[key] = line[key];
+                    else if (line[key] != null) droppedStyles++;
+                }
+                if (typeof line.width === 'number' && line.width > 0) coerced.width = Math.min(line.width, 100);
+                else if (line.width != null) droppedStyles++;
+                lines.push(coerced);
+            }
+            if (droppedPoints > 0) repairs.push(`dropped ${droppedPoints} malformed point(s)`);
+            if (droppedStyles > 0) repairs.push(`ignored ${droppedStyles} invalid color, fill or width value(s)`);
+            if (lines.length < value.length) repairs.push(`dropped ${value.length - lines.length} empty or malformed line(s)`);
+            return lines.length > 0 ? lines : undefined;
+        }
+        case 'edits': {
+            if (!Array.isArray(value)) return undefined;
+            const edits = value.filter(edit => edit && typeof edit.find === 'string' && edit.find.length > 0)
+                .map(edit => ({ find: edit.find as string, replace: typeof edit.replace === 'string' ? edit.replace : '' }));
+            if (edits.length < value.length) repairs.push(`dropped ${value.length - edits.length} edit(s) without "find" text`);
+            return edits.length > 0 ? edits : undefined;
+        }
+    }
+};
+
+interface SequenceValidation {
+    steps: { index: number, action: Action }[];
+    errors: string[];
+    repairs: string[];
+}
+
+/** Checks a raw model-provided sequence against `actionSpecs`, repairing what it safely can. */
+const validateActionSequence = (sequence: unknown): SequenceValidation => {
+    const result: SequenceValidation = { steps: [], errors: [], repairs: [] };
+    if (!Array.isArray(sequence)) {
+        result.errors.push('"sequence" must be an array of action objects.');
+        return result;
+    }
+    sequence.forEach((raw, index) => {
+        const label = `Step ${index + 1}`;
+        if (!raw || typeof raw !== 'object') {
+            result.errors.push(`${label}: expected an action object.`);
+            return;
+        }
+        const name = (raw as Record<string, unknown>).action;
+        if (typeof name !== 'string' || !Object.prototype.hasOwnProperty.call(actionSpecs, name)) {
+            result.errors.push(`${label}: unknown action "${String(name)}".`);
+            return;
+        }
+        const action: Record<string, unknown> = { action: name };
+        const problems: string[] = [];
+        const repairs: string[] = [];
+        for (const [field, spec] of Object.entries(actionSpecs[name as ActionName].fields)) {
+            const value = (raw as Record<string, unknown>)[field];
+            if (value === undefined || value === null) {
+                if (!spec.optional) problems.push(`missing "${field}"`);
+                continue;
+            }
+            const coerced = coerceField(spec.type, value, repairs);
+            if (coerced === undefined) {
+                problems.push(`"${field}" is not a valid ${spec.type === 'lines' ? 'list of lines' : spec.type === 'edits' ? 'list of edits' : spec.type}`);
+            } else {
+                action[field] = coerced;
+            }
+        }
+        if (problems.length > 0) {
+            result.errors.push(`${label} (${name}): ${problems.join(', ')}.`);
+            return;
+        }
+        if (repairs.length > 0) {
+            result.repairs.push(`${label} (${name}): ${repairs.join(', ')}.`);
+        }
+        result.steps.push({ index, action: action as Action });
+    });
+    return result;
+};
+
 const systemInstruction = `You are an AI assistant with a virtual workstation. You can control a virtual mouse cursor to interact with applications on the desktop.
-With every request, you will receive the current state of the desktop, including desktop dimensions and details for all open windows (ID, title, position, size). Use this information to understand what's on the screen and where to position items. The user's request will follow the desktop state.
+With every request, you will receive the current state of the desktop: its dimensions, the cursor position, what is on the clipboard, the focused element, and details for all open windows (ID, title, position, size). For each window it lists the interactive elements (inputs, buttons, search results, files) with a label and a ready-to-use CSS selector, followed by an excerpt of the text the window is showing. Prefer these selectors over guessing. Use this information to understand what's on the screen and where to position items. The user's request will follow the desktop state.
+Earlier turns of the conversation are included before the latest request: the user's previous requests, the action sequences you returned and how they turned out. Use them to resolve references like "that document" or "the same name".
 Your primary role is to find and display information for the user, not to narrate it back to them in the chat. Use the browser to find information and leave the results on the screen for the user to read. Use the 'speak' action to explain your steps, not to deliver the final answer.
-Your response MUST be a JSON object with a single key "sequence", which is an array of action objects. Do not add any extra text or markdown.
-To resize a window, move the mouse to its maximize/restore button (selector: '#window-id .maximize-btn') and click it.
+Your response MUST be a JSON object with a key "sequence", which is an array of action objects, and an optional boolean key "done". Do not add any extra text or markdown.
+In agent mode, the request ends with "[Agent mode: step N of at most M]". After your sequence runs you will be called again with the updated desktop state and the result of each action, so you can check your work and correct mistakes. Set "done" to false while there is more to do, and to true once the task is complete. When unsure of a selector, keep the batch short and look at the results before continuing.
+To arrange windows, use the window actions (resize_window, maximize_window, minimize_window, restore_window, focus_window, close_window, tile_windows) with the window's ID as the selector. The taskbar lists every open window, including minimized ones, which show "Minimized: true" and have no elements until restored with restore_window or focus_window.
+To fix, reword or rewrite part of an existing document, use edit_document with the exact text from the window's excerpt rather than selecting and retyping it; the user reviews each edit before it is applied.
 Available actions:
-1.  {"action": "speak", "text": "string"}: Say something to the user in the chat to explain what you're doing.
-2.  {"action": "move_mouse_to_element", "selector": "#element-id"}: Move the mouse cursor to the center of a given DOM element with a natural, curved motion.
-3.  {"action": "click"}: Simulate a left mouse click at the current cursor position. This will focus the clicked element (like an input field).
-4.  {"action": "type", "text": "string", "enter": boolean (optional)}: Types text into the currently active window's focused element. The Document Writer supports rich text and images.
-5.  {"action": "scroll", "selector": "string", "pixels": number}: Scrolls a specific element (like a window body) down by a certain number of pixels. The selector must point to the scrollable element.
-6.  {"action": "doodle", "lines": [[[x,y], [x,y], ...], [[x,y], ...]]}: A high-level action that opens the doodle pad and draws a series of lines.
-7.  {"action": "draw_with_cursor", "lines": [[[x,y], [x,y], ...]]}: Move the cursor along a specific path on the desktop for expressive gestures.
-8.  {"action": "generate_image", "prompt": "string"}: Opens the Image Studio and generates an image from the given text prompt. The generated image is automatically copied to the clipboard.
-9.  {"action": "find_image", "prompt": "string"}: A high-level action that generates an image in the background (without opening a window) and copies it to the clipboard, ready to be placed.
-10. {"action": "place_image_in_doc"}: Places the image from the clipboard into the Document Writer app.
-11. {"action": "list_files"}: Opens the File Explorer to show all saved files.
-12. {"action": "open_file", "filename": "string"}: Opens a file from the file system.
-13. {"action": "save_active_file", "filename": "string"}: Saves the content of the currently active window with the given filename.
-14. {"action": "delete_file", "filename": "string"}: Deletes a file from the file system.
-15. {"action": "drag_window", "selector": "#window-id", "x": number, "y": number}: Drags a window to a new position on the desktop. The coordinates are relative to the top-left of the desktop.
+${describeActions()}
 Example Task: "Make the document window fullscreen."
 Assuming desktop state shows: Open Windows: - Window ID: #window-docs-12345, Title: "📝 New Document", Maximized: false
 { "sequence": [
@@ -49,39 +426,307 @@ const responseSchema = {
   properties: {
     sequence: {
       type: Type.ARRAY,
-      items: {
-        type: Type.OBJECT,
-        properties: {
-          action: { type: Type.STRING },
-          text: { type: Type.STRING, nullable: true },
-          selector: { type: Type.STRING, nullable: true },
-          query: { type: Type.STRING, nullable: true },
-          prompt: { type: Type.STRING, nullable: true },
-          filename: { type: Type.STRING, nullable: true },
-          enter: { type: Type.BOOLEAN, nullable: true },
-          pixels: { type: Type.NUMBER, nullable: true },
-          x: { type: Type.NUMBER, nullable: true },
-          y: { type: Type.NUMBER, nullable: true },
-          lines: {
-            type: Type.ARRAY,
-            nullable: true,
-            items: {
-              type: Type.ARRAY,
-              items: {
-                type: Type.ARRAY,
-                items: {
-                  type: Type.NUMBER,
-                },
-              },
-            },
-          },
-        },
-      },
+      items: buildActionItemSchema(),
     },
+    done: { type: Type.BOOLEAN, nullable: true },
   },
   required: ["sequence"],
 };
 
+// --- Conversation Memory ---
+// Prior exchanges are replayed to the model on every request. Once the history
+// outgrows its budget, the oldest exchanges are folded into a short summary.
+// `sequence` is the model's output as it was given, so it may not be valid actions.
+interface ConversationExchange { request: string, sequence: unknown[], outcome: string }
+interface Conversation { summary: string, exchanges: ConversationExchange[] }
+const MAX_CONVERSATION_TOKENS = 4000;
+const MAX_SUMMARY_CHARS = 2000;
+const MAX_EXCHANGE_TEXT_CHARS = 4000;
+const MAX_ACTION_FIELD_CHARS = 300;
+let conversation: Conversation = { summary: '', exchanges: [] };
+
+// A rough estimate (about four characters per token) is enough to keep prompts bounded.
+const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+const truncate = (text: string, maxLength: number) => text.length > maxLength ? `${text.slice(0, maxLength - 1)}…` : text;
+
+const summarizeExchange = (exchange: ConversationExchange): string => {
+    const actions = Array.from(new Set(exchange.sequence
+        .map(step => step && typeof step === 'object' && 'action' in step ? step.action : undefined)
+        .filter((action): action is string => typeof action === 'string' && !!action)));
+    return `- User asked "${truncate(exchange.request, 120)}"; I ran ${exchange.sequence.length} action(s) (${actions.join(', ') || 'none'}). Outcome: ${truncate(exchange.outcome, 120)}`;
+};
+
+// Shortens an exchange for replaying: long texts are cut and bulky action fields, like
+// the points of a drawing, are left out, since the model only needs them as context.
+const compactExchange = (exchange: ConversationExchange): ConversationExchange => ({
+    request: truncate(exchange.request, MAX_EXCHANGE_TEXT_CHARS),
+    outcome: truncate(exchange.outcome, MAX_EXCHANGE_TEXT_CHARS),
+    sequence: exchange.sequence.map(step => step && typeof step === 'object'
+        ? Object.fromEntries(Object.entries(step).map(([field, value]) => {
+            if (typeof value === 'string') return [field, truncate(value, MAX_ACTION_FIELD_CHARS)];
+            return [field, JSON.stringify(value).length > MAX_ACTION_FIELD_CHARS ? '[omitted]' : value];
+        }))
+        : step),
+});
+
+const isOverConversationBudget = () => estimateTokens(JSON.stringify(conversation)) > MAX_CONVERSATION_TOKENS;
+
+const recordExchange = (exchange: ConversationExchange) => {
+    conversation.exchanges.push(exchange);
+    while (conversation.exchanges.length > 1 && isOverConversationBudget()) {
+        const oldest = conversation.exchanges.shift()!;
+        let summary = `${conversation.summary}\n${summarizeExchange(oldest)}`.trim();
+        if (summary.length > MAX_SUMMARY_CHARS) {
+            // Drop whole lines from the front so the summary stays readable.
+            summary = summary.slice(summary.indexOf('\n', summary.length - MAX_SUMMARY_CHARS) + 1);
+        }
+        conversation.summary = summary;
+    }
+    // The latest exchange is always kept, so if it is over budget by itself it is shortened instead.
+    if (isOverConversationBudget()) {
+        const latest = compactExchange(conversation.exchanges[0]);
+        conversation.exchanges[0] = latest;
+        while (latest.sequence.length > 0 && isOverConversationBudget()) latest.sequence.pop();
+    }
+};
+
+const resetConversation = () => {
+    conversation = { summary: '', exchanges: [] };
+};
+
+/** Builds the multi-turn `contents` for a planning request, ending with the current desktop state and request. */
+const buildConversationContents = (history: Conversation, desktopState: string, request: string) => {
+    const contents: { role: 'user' | 'model', parts: { text: string }[] }[] = [];
+    let pendingContext = history.summary ? `SUMMARY OF EARLIER CONVERSATION:\n${history.summary}\n\n` : '';
+    for (const exchange of history.exchanges) {
+        contents.push({ role: 'user', parts: [{ text: `${pendingContext}USER REQUEST:\n${exchange.request}` }] });
+        contents.push({ role: 'model', parts: [{ text: JSON.stringify({ sequence: exchange.sequence }) }] });
+        pendingContext = `OUTCOME OF YOUR PREVIOUS ACTIONS:\n${exchange.outcome}\n\n`;
+    }
+    contents.push({ role: 'user', parts: [{ text: `${pendingContext}DESKTOP STATE:\n${desktopState}\n\nUSER REQUEST:\n${request}` }] });
+    return contents;
+};
+
+// --- AI Providers ---
+// Every AI capability the workstation uses goes through a provider, so the app
+// can run against Gemini or fully offline against canned, scripted responses.
+type ProviderId = 'gemini' | 'scripted';
+/** A part of the summary (by its text) and the indices of the sources that support it. */
+interface SearchCitation { text: string, sources: number[] }
+/** A web page a search drew on, shaped like Gemini's grounding chunks. What it says comes from the citations. */
+interface SearchSource { web?: { uri?: string, title?: string } }
+// `citations` is left out when the provider attributed nothing, so the whole summary is shown for every source.
+interface SearchResult { summary: string, sources: SearchSource[], citations?: SearchCitation[] }
+/** How the Image Studio generates. `style` is a key of IMAGE_STYLES. */
+interface ImageOptions { count: number, aspectRatio: string, style: string, negativePrompt: string }
+const IMAGE_ASPECT_RATIOS = ['1:1', '3:4', '4:3', '9:16', '16:9'];
+const IMAGE_STYLES: Record<string, { label: string, prompt: string }> = {
+    none: { label: 'No style', prompt: '' },
+    photo: { label: 'Photo', prompt: 'a realistic, high-resolution photograph' },
+    illustration: { label: 'Illustration', prompt: 'a clean digital illustration' },
+    watercolor: { label: 'Watercolor', prompt: 'a soft watercolor painting' },
+    sketch: { label: 'Sketch', prompt: 'a pencil sketch' },
+    pixel_art: { label: 'Pixel art', prompt: 'retro pixel art' },
+    '3d_render': { label: '3D render', prompt: 'a 3D render with studio lighting' },
+};
+const MAX_IMAGES_PER_GENERATION = 4;
+const DEFAULT_IMAGE_OPTIONS: ImageOptions = { count: 1, aspectRatio: '1:1', style: 'none', negativePrompt: '' };
+
+// The prompt as the model gets it, with the style and what to leave out written into it.
+const describeImagePrompt = (prompt: string, options: ImageOptions): string => {
+    const style = IMAGE_STYLES[options.style]?.prompt;
+    let text = style ? `${prompt}, as ${style}` : prompt;
+    if (options.negativePrompt) text += `. Leave out: ${options.negativePrompt}`;
+    return text;
+};
+
+interface AIProvider {
+    id: ProviderId;
+    label: string;
+    /** Returns why the provider can't be used, or null if it is ready. */
+    unavailableReason: () => string | null;
+    planActions: (desktopState: string, request: string, history: Conversation) => Promise<{ sequence?: unknown[], done?: boolean }>;
+    groundedSearch: (query: string) => Promise<SearchResult>;
+    /** Resolves to image data URLs, none if nothing could be generated. */
+    generateImages: (prompt: string, options: ImageOptions) => Promise<string[]>;
+}
+
+const geminiProvider: AIProvider = {
+    id: 'gemini',
+    label: 'Gemini',
+    unavailableReason: () => aiInitializationError,
+    planActions: async (desktopState, request, history) => {
+        const response = await ai.models.generateContent({
+            model: 'gemini-2.5-flash',
+            contents: buildConversationContents(history, desktopState, request),
+            config: {
+                systemInstruction,
+                responseMimeType: "application/json",
+                responseSchema,
+                abortSignal: currentRun?.controller.signal,
+            }
+        });
+        return JSON.parse(response.text || '{}');
+    },
+    groundedSearch: async (query) => {
+        const response = await ai.models.generateContent({
+            model: "gemini-2.5-flash",
+            contents: `Summarize information about "${query}" from the web.`,
+            config: { tools: [{ googleSearch: {} }] },
+        });
+        const metadata = response.candidates?.[0]?.groundingMetadata;
+        const supports = metadata?.groundingSupports;
+        return {
+            summary: response.text || '',
+            sources: metadata?.groundingChunks || [],
+            citations: supports?.length ? supports.map(support => ({
+                text: support.segment?.text || '',
+                sources: support.groundingChunkIndices || [],
+            })) : undefined,
+        };
+    },
+    generateImages: async (prompt, options) => {
+        // Imagen 4 doesn't take a separate negative prompt, so everything goes in the prompt.
+        const response = await ai.models.generateImages({
+            model: 'imagen-4.0-generate-001',
+            prompt: describeImagePrompt(prompt, options),
+            config: { numberOfImages: options.count, aspectRatio: options.aspectRatio, outputMimeType: 'image/jpeg' },
+        });
+        return (response.generatedImages || [])
+            .map(generated => generated.image?.imageBytes)
+            .filter((bytes): bytes is string => !!bytes)
+            .map(bytes => `data:image/jpeg;base64,${bytes}`);
+    },
+};
+
+// Canned plans for the offline provider. The first pattern that matches the request wins.
+const scriptedPlans: { pattern: RegExp, plan: (match: RegExpMatchArray) => Action[] }[] = [
+    {
+        pattern: /\b(?:run|play|replay)\s+(?:the\s+)?macro\s+"?([^"]+?)"?\s*$/i,
+        plan: (match) => [
+            { action: 'speak', text: `Running the "${match[1]}" macro.` },
+            { action: 'run_macro', name: match[1] },
+        ],
+    },
+    {
+        pattern: /\b(?:search(?: for)?|look up|research)\s+(.+)/i,
+        plan: (match) => [
+            { action: 'speak', text: `I'll search the web for "${match[1]}".` },
+            { action: 'move_mouse_to_element', selector: '#icon-browser' },
+            { action: 'click' },
+            { action: 'move_mouse_to_element', selector: '.address-bar' },
+            { action: 'click' },
+            { action: 'type', text: match[1], enter: true },
+        ],
+    },
+    {
+        pattern: /\b(?:draw|doodle|sketch)\b/i,
+        plan: () => [
+            { action: 'speak', text: "Here's a little house." },
+            { action: 'doodle', lines: [
+                { points: [[100, 300], [300, 300], [300, 180], [100, 180], [100, 300]], color: '#5d4037', width: 3, fill: '#ffe0b2' },
+                { points: [[90, 190], [200, 90], [310, 190]], color: '#b71c1c', width: 3, fill: '#e53935' },
+                { points: [[180, 300], [180, 240], [220, 240], [220, 300]], color: '#5d4037', width: 3, fill: '#8d6e63' },
+            ] },
+        ],
+    },
+    {
+        pattern: /\b(?:image|picture|photo)\s+(?:of\s+)?(.+)/i,
+        plan: (match) => [
+            { action: 'speak', text: `Generating an image of ${match[1]}.` },
+            { action: 'generate_image', prompt: match[1] },
+        ],
+    },
+    {
+        pattern: /\b(?:write|note|type)\s+(?:down\s+)?(.+)/i,
+        plan: (match) => [
+            { action: 'speak', text: "I'll open a new document and write that down." },
+            { action: 'move_mouse_to_element', selector: '#icon-docs' },
+            { action: 'click' },
+            { action: 'type', text: match[1], enter: true },
+        ],
+    },
+    {
+        pattern: /\b(?:files|explorer)\b/i,
+        plan: () => [
+            { action: 'speak', text: "Here are your saved files." },
+            { action: 'list_files' },
+        ],
+    },
+];
+
+// Each variant of the same prompt gets its own colors, and the image takes the requested shape.
+const createPlaceholderImage = (prompt: string, options = DEFAULT_IMAGE_OPTIONS, variant = 0): string => {
+    const label = prompt.slice(0, 40).replace(/[<>&"']/g, c => `&#${c.charCodeAt(0)};`);
+    const style = options.style !== 'none' ? IMAGE_STYLES[options.style]?.label || '' : '';
+    const hue = (Array.from(prompt).reduce((sum, c) => (sum + c.charCodeAt(0)) % 360, 0) + variant * 47) % 360;
+    const [ratioWidth, ratioHeight] = options.aspectRatio.split(':').map(Number);
+    const width = Math.round(512 * Math.min(1, ratioWidth / ratioHeight));
+    const height = Math.round(512 * Math.min(1, ratioHeight / ratioWidth));
+    const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">
+        <defs><linearGradient id="g" x1="0" y1="0" x2="1" y2="1">
+            <stop offset="0" stop-color="hsl(${hue}, 70%, 55%)"/><stop offset="1" stop-color="hsl(${(hue + 120) % 360}, 70%, 35%)"/>
+        </linearGradient></defs>
+        <rect width="${width}" height="${height}" fill="url(#g)"/>
+        <text x="${width / 2}" y="${height / 2 - 16}" font-family="sans-serif" font-size="64" text-anchor="middle">🖼️</text>
+        <text x="${width / 2}" y="${height / 2 + 54}" font-family="sans-serif" font-size="22" fill="#fff" text-anchor="middle">${label}</text>
+        <text x="${width / 2}" y="${height / 2 + 84}" font-family="sans-serif" font-size="16" fill="#fff" opacity="0.8" text-anchor="middle">${style}</text>
+    </svg>`;
+    // Base64, since only base64 data URLs pass safeUrl.
+    const bytes = new TextEncoder().encode(svg);
+    return `data:image/svg+xml;base64,${btoa(Array.from(bytes, byte => String.fromCharCode(byte)).join(''))}`;
+};
+
+const scriptedProvider: AIProvider = {
+    id: 'scripted',
+    label: 'Offline (scripted)',
+    unavailableReason: () => null,
+    planActions: async (_desktopState, request) => {
+        await sleep(400);
+        for (const { pattern, plan } of scriptedPlans) {
+            const match = request.match(pattern);
+            if (match) return { sequence: plan(match) };
+        }
+        return { sequence: [
+            { action: 'speak', text: `I'm running in offline scripted mode, so I only understand requests like "search ...", "write ...", "draw", "image of ..." or "show my files".` },
+        ] };
+    },
+    groundedSearch: async (query) => {
+        await sleep(600);
+        const slug = encodeURIComponent(query.toLowerCase().replace(/\s+/g, '-'));
+        return {
+            summary: `This is a scripted summary for "${query}".\nThe offline provider doesn't access the web, so this text stands in for real search results.`,
+            sources: [
+                { web: { uri: `https://example.com/wiki/${slug}`, title: `${query} - Example Encyclopedia` } },
+                { web: { uri: `https://example.org/articles/${slug}`, title: `Understanding ${query}` } },
+            ],
+            citations: [
+                { text: `This is a scripted summary for "${query}".`, sources: [0] },
+                { text: "The offline provider doesn't access the web, so this text stands in for real search results.", sources: [0, 1] },
+            ],
+        };
+    },
+    generateImages: async (prompt, options) => {
+        await sleep(600);
+        return Array.from({ length: options.count }, (_, variant) => createPlaceholderImage(prompt, options, variant));
+    },
+};
+
+const PROVIDER_KEY = 'ai_workstation_provider';
+const providers: Record<ProviderId, AIProvider> = { gemini: geminiProvider, scripted: scriptedProvider };
+let activeProviderId: ProviderId = localStorage.getItem(PROVIDER_KEY) === 'scripted' || aiInitializationError ? 'scripted' : 'gemini';
+
+/** Returns the selected provider, throwing if it can't currently be used. */
+const getActiveProvider = (): AIProvider => {
+    const provider = providers[activeProviderId];
+    const reason = provider.unavailableReason();
+    if (reason) {
+        throw new Error(`${provider.label} is unavailable: ${reason}`);
+    }
+    return provider;
+};
+
 // --- Local Storage Client ---
 const USER_ACCOUNTS_KEY = 'ai_workstation_users';
 const DB_PREFIX = 'ai_workstation_data_';
@@ -90,10 +735,18 @@ const getDbKey = () => {
     return `${DB_PREFIX}${currentUser}`;
 }
 
+type SavedBy = 'user' | 'assistant' | 'autosave';
+// Doodles also keep their strokes in `vector`; `content` is then their raster preview.
+interface Revision { content: string, modified: number, savedBy: SavedBy, size: number, vector?: DoodleDocument }
+// `revisions` holds earlier versions, newest first. Files saved before history existed have none.
+interface StoredFile { content: string, modified: number, savedBy?: SavedBy, revisions?: Revision[], vector?: DoodleDocument }
+
 const getDatabase = () => {
     const defaultDb = {
-        files: { documents: {} as Record<string, { content: string, modified: number }>, images: {} as Record<string, { content: string, modified: number }> },
+        files: { documents: {} as Record<string, StoredFile>, images: {} as Record<string, StoredFile> },
         sessions: {} as Record<string, any>,
+        settings: {} as Record<string, any>,
+        macros: {} as Record<string, any>,
     };
     const key = getDbKey();
     if (!key) return defaultDb; // Return default if no user is logged in
@@ -103,7 +756,8 @@ const getDatabase = () => {
             const parsed = JSON.parse(stored);
             // Basic validation to prevent loading corrupted data
             if (parsed.files && parsed.sessions) {
-                return parsed;
+                // Databases from older versions lack the keys added since.
+                return { ...defaultDb, ...parsed };
             }
         }
         return defaultDb;
@@ -113,14 +767,17 @@ const getDatabase = () => {
     }
 };
 
-const saveDatabase = (db: any) => {
+// Returns whether the database was written.
+const saveDatabase = (db: any): boolean => {
     const key = getDbKey();
-    if (!key) return; // Don't save if no user is logged in
+    if (!key) return false; // Don't save if no user is logged in
     try {
         localStorage.setItem(key, JSON.stringify(db));
+        return true;
     } catch (e) {
         console.error("Error writing to localStorage:", e);
         showToast("Error: Could not save data. Storage might be full.");
+        return false;
     }
 };
 
@@ -156,9 +813,32 @@ const loadButton = document.getElementById('load-button') as HTMLButtonElement;
 const loadSessionModal = document.getElementById('load-session-modal')!;
 const closeModalBtn = document.getElementById('close-modal-btn')!;
 const savedSessionsList = document.getElementById('saved-sessions-list')!;
+const permissionsButton = document.getElementById('permissions-button') as HTMLButtonElement;
+const permissionsModal = document.getElementById('permissions-modal')!;
+const closePermissionsBtn = document.getElementById('close-permissions-btn')!;
+const permissionsList = document.getElementById('permissions-list')!;
+const recordMacroButton = document.getElementById('record-macro-button') as HTMLButtonElement;
+const macrosButton = document.getElementById('macros-button') as HTMLButtonElement;
+const macrosModal = document.getElementById('macros-modal')!;
+const closeMacrosBtn = document.getElementById('close-macros-btn')!;
+const macrosList = document.getElementById('macros-list')!;
 const storageBarInner = document.getElementById('storage-bar-inner')!;
 const storageText = document.getElementById('storage-text')!;
 const testingModeIndicator = document.getElementById('testing-mode-indicator')!;
+const providerSelect = document.getElementById('provider-select') as HTMLSelectElement;
+const agentModeToggle = document.getElementById('agent-mode-toggle') as HTMLInputElement;
+const runControls = document.getElementById('run-controls')!;
+const runStatus = document.getElementById('run-status')!;
+const pauseRunButton = document.getElementById('pause-run-button') as HTMLButtonElement;
+const stepRunButton = document.getElementById('step-run-button') as HTMLButtonElement;
+const stopRunButton = document.getElementById('stop-run-button') as HTMLButtonElement;
+const agentMaxStepsInput = document.getElementById('agent-max-steps') as HTMLInputElement;
+const taskbarItems = document.getElementById('taskbar-items')!;
+const showDesktopButton = document.getElementById('show-desktop-button') as HTMLButtonElement;
+const windowSwitcher = document.getElementById('window-switcher')!;
+const unsavedModal = document.getElementById('unsaved-modal')!;
+const unsavedMessage = document.getElementById('unsaved-message')!;
+const unsavedList = document.getElementById('unsaved-list')!;
 
 // Debug Tool Elements
 const debugButton = document.getElementById('debug-button')!;
@@ -172,7 +852,14 @@ let windowZIndex = 10;
 let activeWindow: HTMLElement | null = null;
 let openWindows: Map<string, HTMLElement> = new Map();
 let openFiles = new Map<HTMLElement, { type: 'docs' | 'doodle' | 'studio', name: string }>();
-const browserState = new Map<HTMLElement, { query: string, sources: any[], summary: string }>();
+// A page the browser has shown: the home page (no query), a results page, or a source's page view.
+// Entries saved before citations were kept have none, and fall back to showing the whole summary.
+interface BrowserEntry { query: string, sources: SearchSource[], summary: string, citations?: SearchCitation[], sourceIndex?: number }
+interface BrowserTab { id: number, history: BrowserEntry[], position: number, status?: 'loading' | 'error', pendingQuery?: string }
+interface BrowserWindowState { tabs: BrowserTab[], activeTabId: number }
+// A browser window as `saveSession` stores it. Sessions saved before tabs existed hold a single page instead.
+interface SavedBrowserState extends Partial<BrowserWindowState>, Partial<Pick<BrowserEntry, 'query' | 'sources' | 'summary'>> {}
+const browserState = new Map<HTMLElement, BrowserWindowState>();
 let clipboard: { type: string, data: string } | null = null;
 const MAX_STORAGE = 10 * 1024 * 1024; // This is now just a frontend display constant
 let isTestingMode = false;
@@ -213,6 +900,7 @@ const promptForTestingMode = () => {
 
 const formatBytes = (bytes: number): string => {
     if (bytes === 0) return '0 KB';
+    if (bytes < 1024) return `${bytes} B`;
     const kb = bytes / 1024;
     if (kb < 1024) {
         return `${Math.round(kb)} KB`;
@@ -235,6 +923,7 @@ const updateStorageIndicator = async () => {
 
         storageBarInner.style.width = `${percentage}%`;
         storageText.textContent = `${formatBytes(used)} / ${formatBytes(MAX_STORAGE)}`;
+        storageText.title = `Revision history: ${formatBytes(getHistorySize(getDatabase()))}`;
 
         if (percentage > 90) {
             storageBarInner.style.backgroundColor = 'var(--error-color)';
@@ -257,23 +946,30 @@ const initializeAppForUser = (username: string) => {
     // Update UI for logged-in state
     authModal.style.display = 'none';
     appContainer.classList.remove('hidden');
-    userDisplay.innerHTML = `Welcome, <strong>${username}</strong>`;
+    userDisplay.innerHTML = `Welcome, <strong>${escapeHtml(username)}</strong>`;
     userDisplay.classList.remove('hidden');
     logoutButton.classList.remove('hidden');
     appTitle.textContent = `${username}'s Workstation`;
 
     // Initialize the actual app state for the user
     initializeAppState();
+    recoverDrafts();
+    startAutosave();
 };
 
-const logoutUser = () => {
+const logoutUser = async () => {
+    if (!await confirmUnsavedChanges(getDirtyWindows(), 'logging out')) return;
+    stopAutosave();
     // Clear user-specific UI
     openWindows.forEach(win => win.remove());
     openWindows.clear();
     openFiles.clear();
     browserState.clear();
+    doodleState.clear();
+    studioState.clear();
     activeWindow = null;
     chatHistory.innerHTML = '';
+    resetConversation();
     
     // Reset state variables
     currentUser = null;
@@ -298,12 +994,18 @@ const initializeAppState = () => {
     openWindows.clear();
     openFiles.clear();
     browserState.clear();
+    doodleState.clear();
+    studioState.clear();
     activeWindow = null;
     windowZIndex = 10;
+    desktopShownWindows = null;
+    closeWindowSwitcher(false);
+    renderTaskbar();
     chatHistory.innerHTML = '';
+    resetConversation();
     addMessage('assistant', `Hello! I'm your AI assistant. What can I help you with today?`);
     if(aiInitializationError) {
-        addMessage('assistant', `Warning: AI service failed to initialize. Error: ${aiInitializationError}`);
+        addMessage('assistant', `Warning: Gemini failed to initialize (${aiInitializationError}). I'm using the offline scripted provider instead.`);
     }
     cursor.style.left = '100px';
     cursor.style.top = '100px';
@@ -312,985 +1014,4747 @@ const initializeAppState = () => {
     updateStorageIndicator();
 };
 
-const getDesktopState = (): string => {
-    const desktopRect = desktop.getBoundingClientRect();
-    const desktopState = `Desktop Dimensions: ${Math.round(desktopRect.width)}px wide, ${Math.round(desktopRect.height)}px tall.`;
 
-    if (openWindows.size === 0) {
-        return `${desktopState}\nThe desktop is empty. No windows are open.`;
-    }
+// --- Keyboard & Text Editing ---
+// Synthetic keyboard events don't edit anything by themselves, so the editing
+// actions dispatch real events for listeners (like the address bar's Enter
+// handler) and then apply the key's default behaviour unless it was prevented.
+const EDITABLE_SELECTOR = 'input:not([type="checkbox"]):not([type="button"]):not([readonly]), textarea:not([readonly]), [contenteditable="true"]';
+type TextField = HTMLInputElement | HTMLTextAreaElement;
 
-    const windowStates = Array.from(openWindows.values()).map(win => {
-        const winRect = win.getBoundingClientRect();
-        const title = win.querySelector('.window-title')?.textContent || 'Untitled';
-        const isMaximized = win.classList.contains('maximized');
-        const pos = `Position: { left: ${Math.round(winRect.left - desktopRect.left)}px, top: ${Math.round(winRect.top - desktopRect.top)}px }`;
-        const size = `Size: { width: ${Math.round(winRect.width)}px, height: ${Math.round(winRect.height)}px }`;
-        return `- Window ID: #${win.id}, Title: "${title}", Maximized: ${isMaximized}, ${pos}, ${size}`;
-    });
+const isTextField = (el: HTMLElement): el is TextField => el.matches('input, textarea');
 
-    return `${desktopState}\nOpen Windows:\n${windowStates.join('\n')}`;
+const selectionIsInside = (root: HTMLElement): boolean => {
+    const selection = window.getSelection();
+    return !!selection && selection.rangeCount > 0 && root.contains(selection.getRangeAt(0).commonAncestorContainer);
 };
 
-// --- High-level actions, AI prompt, execution logic ---
-const addMessage = (sender: 'user' | 'assistant', text: string, thinking = false) => {
-  const messageEl = document.createElement('div');
-  messageEl.classList.add('chat-message', sender);
-  if (thinking) {
-    messageEl.classList.add('thinking');
-    messageEl.innerHTML = `<div class="spinner"></div><span>${text}</span>`;
-  } else {
-    messageEl.textContent = text;
-  }
-  chatHistory.appendChild(messageEl);
-  chatHistory.scrollTop = chatHistory.scrollHeight;
-  return messageEl;
+const placeCaretAtEnd = (root: HTMLElement) => {
+    const range = document.createRange();
+    range.selectNodeContents(root);
+    range.collapse(false);
+    const selection = window.getSelection()!;
+    selection.removeAllRanges();
+    selection.addRange(range);
 };
-const handleUserInput = async () => {
-  const prompt = chatInput.value.trim();
-  if (!prompt || isTestingMode) return;
-  addMessage('user', prompt);
-  chatInput.value = '';
-  chatInput.style.height = 'auto';
-  const thinkingMessage = addMessage('assistant', 'Thinking...', true);
-  sendButton.disabled = true;
-  try {
-    if (aiInitializationError) {
-        throw new Error(`AI Service is unavailable: ${aiInitializationError}`);
-    }
-    const desktopState = getDesktopState();
-    const fullPrompt = `DESKTOP STATE:\n${desktopState}\n\nUSER REQUEST:\n${prompt}`;
-    const response = await ai.models.generateContent({
-        model: 'gemini-2.5-flash',
-        contents: fullPrompt,
-        config: {
-            systemInstruction,
-            responseMimeType: "application/json",
-            responseSchema,
-        }
-    });
-    const decisionText = response.text;
-    const decision = JSON.parse(decisionText);
-    thinkingMessage.remove();
-    if (decision.sequence) {
-      await executeActionSequence(decision.sequence);
+
+// Puts the caret where a real click at these viewport coordinates would.
+const placeCaretAtPoint = (root: HTMLElement, x: number, y: number) => {
+    const range = document.caretRangeFromPoint?.(x, y);
+    if (range && root.contains(range.startContainer)) {
+        const selection = window.getSelection()!;
+        selection.removeAllRanges();
+        selection.addRange(range);
     } else {
-      addMessage('assistant', "I'm not sure how to respond to that.");
+        placeCaretAtEnd(root);
     }
-  } catch (error) {
-    console.error("Error processing user input:", error);
-    thinkingMessage.remove();
-    addMessage('assistant', `Sorry, I encountered an error: ${(error as Error).message}`);
-  } finally {
-    sendButton.disabled = false;
-  }
 };
-const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
-const animateCursor = (startX: number, startY: number, endX: number, endY: number, duration: number) => {
-    return new Promise(resolve => {
-        const controlX = (startX + endX) / 2 + (endY - startY) * (Math.random() - 0.5) * 0.8;
-        const controlY = (startY + endY) / 2 + (startX - endX) * (Math.random() - 0.5) * 0.8;
-        let startTime: number | null = null;
-        const animationFrame = (timestamp: number) => {
-            if (!startTime) startTime = timestamp;
-            const progress = Math.min((timestamp - startTime) / duration, 1);
-            const easeProgress = 1 - Math.pow(1 - progress, 5);
-            const t = easeProgress;
-            const x = Math.pow(1 - t, 2) * startX + 2 * (1 - t) * t * controlX + Math.pow(t, 2) * endX;
-            const y = Math.pow(1 - t, 2) * startY + 2 * (1 - t) * t * controlY + Math.pow(t, 2) * endY;
-            cursor.style.left = `${x}px`;
-            cursor.style.top = `${y}px`;
-            if (progress < 1) {
-                requestAnimationFrame(animationFrame);
-            } else {
-                resolve(null);
-            }
-        };
-        requestAnimationFrame(animationFrame);
-    });
+
+/** The current selection inside a contenteditable root, or a caret at its end if the selection is elsewhere. */
+const getEditingRange = (root: HTMLElement): Range => {
+    if (!selectionIsInside(root)) placeCaretAtEnd(root);
+    return window.getSelection()!.getRangeAt(0);
 };
-const animateLinear = (startX: number, startY: number, endX: number, endY: number, duration: number) => {
-    return new Promise(resolve => {
-        let startTime: number | null = null;
-        const animationFrame = (timestamp: number) => {
-            if (!startTime) startTime = timestamp;
-            const progress = Math.min((timestamp - startTime) / duration, 1);
-            const x = startX + (endX - startX) * progress;
-            const y = startY + (endY - startY) * progress;
-            cursor.style.left = `${x}px`;
-            cursor.style.top = `${y}px`;
-            if (progress < 1) {
-                requestAnimationFrame(animationFrame);
-            } else {
-                resolve(null);
-            }
-        };
-        requestAnimationFrame(animationFrame);
-    });
+
+const focusEditable = (target: HTMLElement) => {
+    const windowEl = target.closest('.app-window') as HTMLElement | null;
+    if (windowEl && Array.from(openWindows.values()).includes(windowEl)) setActiveWindow(windowEl);
+    if (document.activeElement === target) return;
+    // Focusing a contenteditable moves the caret to its start, so keep typing where it was (or at the end).
+    const keepSelection = !isTextField(target) && selectionIsInside(target);
+    target.focus();
+    if (!isTextField(target) && !keepSelection) placeCaretAtEnd(target);
 };
-const followCursorPath = async (path: [number, number][]) => {
-    if (!path || path.length === 0) return;
-    const startX = parseFloat(cursor.style.left || '0');
-    const startY = parseFloat(cursor.style.top || '0');
-    await animateCursor(startX, startY, path[0][0], path[0][1], 300);
-    for (let i = 0; i < path.length - 1; i++) {
-        const from = path[i];
-        const to = path[i + 1];
-        const distance = Math.hypot(to[0] - from[0], to[1] - from[1]);
-        const duration = Math.max(50, distance * 3.5);
-        await animateLinear(from[0], from[1], to[0], to[1], duration);
+
+/**
+ * Finds where keyboard input should go: the element matching `selector` if given,
+ * otherwise the focused field in the active window, or the Document Writer's body.
+ */
+const getEditingTarget = (selector?: string): HTMLElement => {
+    let target: HTMLElement | null = null;
+    if (selector) {
+        const el = document.querySelector(selector) as HTMLElement | null;
+        if (!el) throw new Error(`No element matches "${selector}".`);
+        target = el.matches(EDITABLE_SELECTOR) ? el : el.querySelector(EDITABLE_SELECTOR);
+        if (!target) throw new Error(`"${selector}" is not a text field or document.`);
+    } else {
+        if (!activeWindow) throw new Error('There is no active window to type into.');
+        const focused = document.activeElement as HTMLElement | null;
+        if (focused && activeWindow.contains(focused) && focused.matches(EDITABLE_SELECTOR)) {
+            target = focused;
+        } else if (activeWindow.dataset.app === 'docs') {
+            target = activeWindow.querySelector('.window-body') as HTMLElement;
+        } else {
+            throw new Error('No text field is focused in the active window. Click one first.');
+        }
     }
+    focusEditable(target);
+    return target;
 };
-const openAppViaIcon = async (appId: string, iconSelector: string): Promise<HTMLElement | null> => {
-    let windowEl: HTMLElement | undefined | null = null;
-    if (['browser', 'doodle', 'studio', 'explorer'].includes(appId)) {
-        windowEl = openWindows.get(appId);
-        if (windowEl) {
-            setActiveWindow(windowEl);
-            return windowEl;
-        }
+
+const notifyInput = (target: HTMLElement, inputType: string, data: string | null = null) => {
+    target.dispatchEvent(new InputEvent('input', { bubbles: true, inputType, data }));
+};
+
+/** Inserts text at the caret, replacing any selection. Newlines become line breaks in documents. */
+const insertText = (target: HTMLElement, text: string) => {
+    if (isTextField(target)) {
+        const value = target instanceof HTMLInputElement ? text.replace(/\n/g, '') : text;
+        target.setRangeText(value, target.selectionStart ?? target.value.length, target.selectionEnd ?? target.value.length, 'end');
+        notifyInput(target, 'insertText', value);
+        return;
     }
-    else if (appId === 'docs') {
-        const existingNewDoc = Array.from(openWindows.values()).find(w => w.dataset.app === 'docs' && !openFiles.has(w));
-        if (existingNewDoc) {
-            setActiveWindow(existingNewDoc);
-            return existingNewDoc;
+    const range = getEditingRange(target);
+    range.deleteContents();
+    const parts = text.split('\n');
+    parts.forEach((part, index) => {
+        if (index > 0) {
+            const br = document.createElement('br');
+            range.insertNode(br);
+            range.setStartAfter(br);
         }
-    }
-    const iconEl = document.querySelector(iconSelector);
-    if (iconEl) {
-        const startX = parseFloat(cursor.style.left || '0');
-        const startY = parseFloat(cursor.style.top || '0');
-        const rect = iconEl.getBoundingClientRect();
-        const desktopRect = desktop.getBoundingClientRect();
-        const targetX = rect.left - desktopRect.left + rect.width / 2;
-        const targetY = rect.top - desktopRect.top + rect.height / 2;
-        await animateCursor(startX, startY, targetX, targetY, 600);
-        const cursorRect = cursor.getBoundingClientRect();
-        const targetElement = document.elementFromPoint(cursorRect.left + 12, cursorRect.top + 12);
-        if (targetElement) {
-            const iconToClick = (targetElement as HTMLElement).closest('.icon');
-            if (iconToClick) {
-                (iconToClick as HTMLElement).click();
-                await sleep(300);
-            }
+        if (part) {
+            const textNode = document.createTextNode(part);
+            range.insertNode(textNode);
+            range.setStartAfter(textNode);
         }
-        if (['browser', 'doodle', 'studio', 'explorer'].includes(appId)) {
-            return openWindows.get(appId) || null;
-        } else if (appId === 'docs') {
-            let newestDoc: HTMLElement | null = null;
-            let maxZ = -1;
-            openWindows.forEach(win => {
-                if (win.dataset.app === 'docs' && !openFiles.has(win)) {
-                    const z = parseInt(win.style.zIndex);
-                    if (z > maxZ) {
-                        maxZ = z;
-                        newestDoc = win;
-                    }
-                }
-            });
-            return newestDoc;
+    });
+    range.collapse(true);
+    const selection = window.getSelection()!;
+    selection.removeAllRanges();
+    selection.addRange(range);
+    notifyInput(target, text.includes('\n') ? 'insertLineBreak' : 'insertText', text);
+};
+
+// Contextual fragments run their scripts once inserted, so the markup is cleaned first.
+const insertHtmlAtCaret = (target: HTMLElement, html: string) => {
+    const range = getEditingRange(target);
+    range.deleteContents();
+    const fragment = range.createContextualFragment(cleanDocumentHtml(html));
+    const last = fragment.lastChild;
+    range.insertNode(fragment);
+    if (last) range.setStartAfter(last);
+    range.collapse(true);
+    const selection = window.getSelection()!;
+    selection.removeAllRanges();
+    selection.addRange(range);
+    notifyInput(target, 'insertFromPaste');
+};
+
+const getSelectedText = (target: HTMLElement): string => {
+    if (isTextField(target)) return target.value.slice(target.selectionStart ?? 0, target.selectionEnd ?? 0);
+    return selectionIsInside(target) ? window.getSelection()!.toString() : '';
+};
+
+const deleteText = (target: HTMLElement, direction: 'backward' | 'forward') => {
+    if (isTextField(target)) {
+        let start = target.selectionStart ?? target.value.length;
+        let end = target.selectionEnd ?? start;
+        if (start === end) {
+            if (direction === 'backward') start = Math.max(0, start - 1);
+            else end = Math.min(target.value.length, end + 1);
+        }
+        target.setRangeText('', start, end, 'end');
+    } else {
+        const range = getEditingRange(target);
+        if (range.collapsed) {
+            window.getSelection()!.modify('extend', direction, 'character');
         }
+        window.getSelection()!.getRangeAt(0).deleteContents();
     }
-    return null;
+    notifyInput(target, direction === 'backward' ? 'deleteContentBackward' : 'deleteContentForward');
 };
-const dragWindow = async (selector: string, targetX: number, targetY: number) => {
-    const windowEl = document.querySelector(selector) as HTMLElement;
-    const headerEl = windowEl?.querySelector('.window-header') as HTMLElement;
-    if (!windowEl || !headerEl) {
-        addMessage('assistant', `I tried to move a window, but I couldn't find it.`);
+
+const moveCaret = (target: HTMLElement, key: string, extend: boolean) => {
+    const alter = extend ? 'extend' : 'move';
+    if (isTextField(target)) {
+        const length = target.value.length;
+        const caret = key === 'ArrowLeft' ? Math.max(0, (target.selectionStart ?? 0) - 1)
+            : key === 'ArrowRight' ? Math.min(length, (target.selectionEnd ?? 0) + 1)
+            : key === 'Home' ? 0 : length;
+        const anchor = extend ? (key === 'ArrowLeft' || key === 'Home' ? target.selectionEnd ?? caret : target.selectionStart ?? caret) : caret;
+        target.setSelectionRange(Math.min(anchor, caret), Math.max(anchor, caret));
         return;
-    };
-    if (windowEl.classList.contains('maximized')) {
-        addMessage('assistant', `I can't move that window because it's maximized.`);
+    }
+    getEditingRange(target);
+    const selection = window.getSelection()!;
+    if (key === 'ArrowLeft') selection.modify(alter, 'backward', 'character');
+    else if (key === 'ArrowRight') selection.modify(alter, 'forward', 'character');
+    else if (key === 'ArrowUp') selection.modify(alter, 'backward', 'line');
+    else if (key === 'ArrowDown') selection.modify(alter, 'forward', 'line');
+    else if (key === 'Home') selection.modify(alter, 'backward', 'lineboundary');
+    else if (key === 'End') selection.modify(alter, 'forward', 'lineboundary');
+};
+
+const selectAllIn = (target: HTMLElement) => {
+    if (isTextField(target)) {
+        target.select();
         return;
     }
-    const startCursorX = parseFloat(cursor.style.left);
-    const startCursorY = parseFloat(cursor.style.top);
-    const headerRect = headerEl.getBoundingClientRect();
-    const desktopRect = desktop.getBoundingClientRect();
-    const headerCenterX = headerRect.left - desktopRect.left + headerRect.width / 2;
-    const headerCenterY = headerRect.top - desktopRect.top + headerRect.height / 2;
-    await animateCursor(startCursorX, startCursorY, headerCenterX, headerCenterY, 500);
-    const windowRect = windowEl.getBoundingClientRect();
-    const windowStartX = windowRect.left - desktopRect.left;
-    const windowStartY = windowRect.top - desktopRect.top;
-    const offsetX = headerCenterX - windowStartX;
-    const offsetY = headerCenterY - windowStartY;
-    let windowTargetX = targetX - offsetX;
-    let windowTargetY = targetY - offsetY;
-    windowTargetX = Math.max(0, Math.min(windowTargetX, desktopRect.width - windowRect.width));
-    windowTargetY = Math.max(0, Math.min(windowTargetY, desktopRect.height - windowRect.height));
-    const finalCursorX = windowTargetX + offsetX;
-    const finalCursorY = windowTargetY + offsetY;
-    const duration = 1000;
-    let startTime: number | null = null;
-    const animationFrame = (timestamp: number) => {
-        if (!startTime) startTime = timestamp;
-        const progress = Math.min((timestamp - startTime) / duration, 1);
-        const easeProgress = 1 - Math.pow(1 - progress, 4);
-        const currentCursorX = headerCenterX + (finalCursorX - headerCenterX) * easeProgress;
-        const currentCursorY = headerCenterY + (finalCursorY - headerCenterY) * easeProgress;
-        cursor.style.left = `${currentCursorX}px`;
-        cursor.style.top = `${currentCursorY}px`;
-        const currentWindowX = windowStartX + (windowTargetX - windowStartX) * easeProgress;
-        const currentWindowY = windowStartY + (windowTargetY - windowStartY) * easeProgress;
-        windowEl.style.left = `${currentWindowX}px`;
-        windowEl.style.top = `${currentWindowY}px`;
-        if (progress < 1) {
-            requestAnimationFrame(animationFrame);
+    const range = document.createRange();
+    range.selectNodeContents(target);
+    const selection = window.getSelection()!;
+    selection.removeAllRanges();
+    selection.addRange(range);
+};
+
+/** Selects text in `target` by its first occurrence, by character offsets, or all of it. */
+const selectTextIn = (target: HTMLElement, options: { text?: string, start?: number, end?: number }) => {
+    if (options.text === undefined && options.start === undefined) {
+        selectAllIn(target);
+        return;
+    }
+    const fullText = isTextField(target) ? target.value : target.textContent || '';
+    let start = options.start ?? 0;
+    let end = options.end ?? fullText.length;
+    if (options.text !== undefined) {
+        start = fullText.indexOf(options.text);
+        if (start === -1) throw new Error(`"${truncate(options.text, 40)}" doesn't appear in the text.`);
+        end = start + options.text.length;
+    }
+    start = Math.max(0, Math.min(start, fullText.length));
+    end = Math.max(start, Math.min(end, fullText.length));
+    if (isTextField(target)) {
+        target.setSelectionRange(start, end);
+        return;
+    }
+    // Map character offsets in textContent back onto text nodes.
+    const range = document.createRange();
+    const walker = document.createTreeWalker(target, NodeFilter.SHOW_TEXT);
+    let offset = 0;
+    let startSet = false;
+    range.selectNodeContents(target);
+    for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+        const length = node.textContent!.length;
+        if (!startSet && start <= offset + length) {
+            range.setStart(node, start - offset);
+            startSet = true;
         }
-    };
-    return new Promise<void>(resolve => {
-        requestAnimationFrame(animationFrame);
-        setTimeout(() => resolve(), duration);
-    });
+        if (startSet && end <= offset + length) {
+            range.setEnd(node, end - offset);
+            break;
+        }
+        offset += length;
+    }
+    const selection = window.getSelection()!;
+    selection.removeAllRanges();
+    selection.addRange(range);
 };
-const executeActionSequence = async (sequence: any[]) => {
-    for (const action of sequence) {
-        await sleep(200);
-        switch (action.action) {
-            case 'speak':
-                addMessage('assistant', action.text);
-                break;
-            case 'move_mouse_to_element':
-                const el = document.querySelector(action.selector);
-                if (el) {
-                    const startX = parseFloat(cursor.style.left || '0');
-                    const startY = parseFloat(cursor.style.top || '0');
-                    const rect = el.getBoundingClientRect();
-                    const desktopRect = desktop.getBoundingClientRect();
-                    const targetX = rect.left - desktopRect.left + rect.width / 2;
-                    const targetY = rect.top - desktopRect.top + rect.height / 2;
-                    await animateCursor(startX, startY, targetX, targetY, 600);
-                }
-                break;
-            case 'click':
-                const cursorRect = cursor.getBoundingClientRect();
-                const targetElement = document.elementFromPoint(cursorRect.left + 12, cursorRect.top + 12);
-                if (targetElement) {
-                    (targetElement as HTMLElement).click();
-                    await sleep(300);
-                }
-                break;
-            case 'type':
-                if (activeWindow) {
-                    if (activeWindow.dataset.app === 'docs') {
-                        const body = activeWindow.querySelector('.window-body');
-                        if (body) {
-                            const textWithBreaks = action.text.replace(/\n/g, '<br>');
-                            for (const char of textWithBreaks) {
-                                body.innerHTML += char;
-                                await sleep(20);
-                            }
-                            if (action.enter) {
-                                body.innerHTML += '<br>';
-                            }
-                            body.scrollTop = body.scrollHeight;
-                        }
-                    } else {
-                        const targetInput = activeWindow.querySelector('input:focus, textarea:focus') as HTMLInputElement | HTMLTextAreaElement;
-                        if (targetInput) {
-                            for (const char of action.text) {
-                                targetInput.value += char;
-                                await sleep(25);
-                            }
-                            if (action.enter) {
-                                const enterEvent = new KeyboardEvent('keydown', { key: 'Enter', bubbles: true });
-                                targetInput.dispatchEvent(enterEvent);
-                            }
-                        }
-                    }
-                }
-                break;
-            case 'scroll':
-                const scrollableEl = document.querySelector(action.selector);
-                if(scrollableEl) {
-                    scrollableEl.scrollBy({ top: action.pixels, behavior: 'smooth' });
-                    await sleep(500);
-                }
-                break;
-            case 'doodle':
-                await useDoodlePad(action.lines);
-                break;
-            case 'generate_image':
-                await useImageStudio(action.prompt);
-                break;
-            case 'find_image':
-                try {
-                    const response = await ai.models.generateImages({
-                        model: 'imagen-4.0-generate-001',
-                        prompt: action.prompt,
-                        config: { numberOfImages: 1, outputMimeType: 'image/jpeg' },
-                    });
-                    const base64ImageBytes = response.generatedImages?.[0]?.image.imageBytes || null;
-                    if (base64ImageBytes) {
-                        const imageUrl = `data:image/jpeg;base64,${base64ImageBytes}`;
-                        clipboard = { type: 'image', data: imageUrl };
-                    }
-                } catch(error) {
-                    console.error("find_image error:", error);
-                    addMessage('assistant', `Sorry, I couldn't create an image for: "${action.prompt}"`);
-                }
-                break;
-            case 'place_image_in_doc':
-                if (clipboard && clipboard.type === 'image') {
-                    let docWindow: HTMLElement | null = Array.from(openWindows.values()).find(w => w.dataset.app === 'docs' && !openFiles.has(w))!;
-                    if (!docWindow) {
-                        docWindow = await openAppViaIcon('docs', '#icon-docs');
-                    }
-                    if (docWindow) {
-                        setActiveWindow(docWindow);
-                        const docBody = docWindow.querySelector('.window-body');
-                        if (docBody) {
-                            docBody.innerHTML += `<img src="${clipboard.data}" alt="AI Generated Image">`;
-                            docBody.scrollTop = docBody.scrollHeight;
-                        }
-                    } else {
-                         addMessage('assistant', "I couldn't open a document to place the image.");
-                    }
-                } else {
-                    addMessage('assistant', "There's no image on the clipboard to place.");
-                }
-                break;
-            case 'draw_with_cursor':
-                if (action.lines && Array.isArray(action.lines)) {
-                    for (const line of action.lines) {
-                        await followCursorPath(line);
-                    }
-                }
-                break;
-            case 'list_files':
-                await openAppViaIcon('explorer', '#icon-explorer');
-                break;
-            case 'open_file':
-                if (action.filename) {
-                    const files = await getFiles();
-                    const docData = files.documents[action.filename];
-                    const imgData = files.images[action.filename];
-                    if (docData) {
-                        openDocumentWriter({ name: action.filename, content: docData.content });
-                    } else if (imgData) {
-                        openImageViewer(action.filename, imgData.content);
-                    } else {
-                        addMessage('assistant', `File not found: "${action.filename}"`);
-                    }
-                }
-                break;
-            case 'save_active_file':
-                if (activeWindow && action.filename) {
-                    const appType = activeWindow.dataset.app;
-                    if (appType === 'docs') {
-                        const content = activeWindow.querySelector('.window-body')!.innerHTML;
-                        await saveFile('documents', action.filename, content);
-                        openFiles.set(activeWindow, { type: 'docs', name: action.filename });
-                        activeWindow.querySelector('.window-title')!.textContent = `📝 ${action.filename}`;
-                    } else if (appType === 'doodle') {
-                        const canvas = activeWindow.querySelector('canvas') as HTMLCanvasElement;
-                        const content = canvas.toDataURL();
-                        await saveFile('images', action.filename, content);
-                        openFiles.set(activeWindow, { type: 'doodle', name: action.filename });
-                        activeWindow.querySelector('.window-title')!.textContent = `🎨 ${action.filename}`;
-                    } else if (appType === 'studio') {
-                        const img = activeWindow.querySelector('.image-container img') as HTMLImageElement;
-                        if (img) {
-                            await saveFile('images', action.filename, img.src);
-                            openFiles.set(activeWindow, { type: 'studio', name: action.filename });
-                            activeWindow.querySelector('.window-title')!.textContent = `🖼️ ${action.filename}`;
-                        }
-                    }
-                }
+
+const clearField = (target: HTMLElement) => {
+    if (isTextField(target)) {
+        target.value = '';
+    } else {
+        target.innerHTML = '';
+    }
+    notifyInput(target, 'deleteContent');
+};
+
+const KEY_ALIASES: Record<string, string> = {
+    ctrl: 'Control', control: 'Control', cmd: 'Meta', command: 'Meta', meta: 'Meta', win: 'Meta', alt: 'Alt', option: 'Alt', shift: 'Shift',
+    enter: 'Enter', return: 'Enter', tab: 'Tab', esc: 'Escape', escape: 'Escape', backspace: 'Backspace', delete: 'Delete', del: 'Delete',
+    space: ' ', left: 'ArrowLeft', right: 'ArrowRight', up: 'ArrowUp', down: 'ArrowDown', home: 'Home', end: 'End',
+    arrowleft: 'ArrowLeft', arrowright: 'ArrowRight', arrowup: 'ArrowUp', arrowdown: 'ArrowDown',
+};
+const normalizeKey = (key: string) => KEY_ALIASES[key.trim().toLowerCase()] || (key.trim().length === 1 ? key.trim().toLowerCase() : key.trim());
+
+interface KeyModifiers { ctrlKey: boolean, shiftKey: boolean, altKey: boolean, metaKey: boolean }
+const NO_MODIFIERS: KeyModifiers = { ctrlKey: false, shiftKey: false, altKey: false, metaKey: false };
+
+/** Dispatches keydown/keyup on the target. Resolves to false if a listener prevented the default. */
+const dispatchKey = (target: HTMLElement, key: string, modifiers: KeyModifiers): boolean => {
+    const init = { key, bubbles: true, cancelable: true, ...modifiers };
+    const proceed = target.dispatchEvent(new KeyboardEvent('keydown', init));
+    target.dispatchEvent(new KeyboardEvent('keyup', init));
+    return proceed;
+};
+
+const focusNextField = (target: HTMLElement, backward: boolean) => {
+    const scope = target.closest('.app-window') || desktop;
+    const fields = Array.from(scope.querySelectorAll<HTMLElement>(`${EDITABLE_SELECTOR}, button`)).filter(el => el.getClientRects().length > 0);
+    const index = fields.indexOf(target);
+    const next = fields[(index + (backward ? -1 : 1) + fields.length) % fields.length];
+    if (next) focusEditable(next);
+};
+
+/** Presses a key (with modifiers) on the editing target and applies its default behaviour. */
+const pressKey = (target: HTMLElement, rawKey: string, modifiers: KeyModifiers = NO_MODIFIERS) => {
+    const key = normalizeKey(rawKey);
+    if (!dispatchKey(target, key, modifiers)) return;
+    const shortcut = modifiers.ctrlKey || modifiers.metaKey;
+    if (shortcut) {
+        switch (key) {
+            case 'a':
+                selectAllIn(target);
                 break;
-            case 'drag_window':
-                if (action.selector && typeof action.x === 'number' && typeof action.y === 'number') {
-                    await dragWindow(action.selector, action.x, action.y);
-                } else {
-                     addMessage('assistant', `I was asked to move a window, but the details were missing.`);
-                }
+            case 'c':
+            case 'x': {
+                const text = getSelectedText(target);
+                if (text) clipboard = { type: 'text', data: text };
+                if (text && key === 'x') deleteText(target, 'backward');
                 break;
-            case 'delete_file':
-                 if (action.filename) {
-                    const files = await getFiles();
-                    if (files.documents[action.filename]) {
-                        await deleteFile('documents', action.filename);
-                    } else if (files.images[action.filename]) {
-                        await deleteFile('images', action.filename);
-                    } else {
-                        addMessage('assistant', `File not found: "${action.filename}"`);
-                    }
-                    const explorer = openWindows.get('explorer');
-                    if (explorer) {
-                        await renderExplorer(explorer);
-                    }
-                }
+            }
+            case 'v':
+                if (clipboard?.type === 'text') insertText(target, clipboard.data);
+                else if (clipboard?.type === 'image' && !isTextField(target)) insertHtmlAtCaret(target, renderImageTag(clipboard.data, 'Pasted image'));
                 break;
         }
+        return;
+    }
+    switch (key) {
+        case 'Backspace':
+            deleteText(target, 'backward');
+            break;
+        case 'Delete':
+            deleteText(target, 'forward');
+            break;
+        case 'Enter':
+            // Single-line inputs act on Enter through their keydown listeners instead.
+            if (!(target instanceof HTMLInputElement)) insertText(target, '\n');
+            break;
+        case 'Tab':
+            focusNextField(target, modifiers.shiftKey);
+            break;
+        case 'ArrowLeft':
+        case 'ArrowRight':
+        case 'ArrowUp':
+        case 'ArrowDown':
+        case 'Home':
+        case 'End':
+            moveCaret(target, key, modifiers.shiftKey);
+            break;
+        case 'Escape':
+            target.blur();
+            break;
+        default:
+            if (key.length === 1) insertText(target, modifiers.shiftKey ? key.toUpperCase() : key);
     }
 };
 
-const openDocumentWriter = (file: { name: string, content: string } | null = null): HTMLElement => {
-    if (file) {
-        for (const [win, fileInfo] of openFiles.entries()) {
-            if (fileInfo.type === 'docs' && fileInfo.name === file.name) {
-                setActiveWindow(win);
-                return win;
-            }
-        }
+/** Parses a combo like "Ctrl+Shift+A" into its main key and modifiers. */
+const parseKeyCombo = (combo: string): { key: string, modifiers: KeyModifiers } => {
+    const parts = combo.split('+').map(part => part.trim()).filter(Boolean);
+    if (combo.trim().endsWith('+')) parts.push('+');
+    const modifiers = { ...NO_MODIFIERS };
+    let key = '';
+    for (const part of parts) {
+        const normalized = normalizeKey(part);
+        if (normalized === 'Control') modifiers.ctrlKey = true;
+        else if (normalized === 'Shift') modifiers.shiftKey = true;
+        else if (normalized === 'Alt') modifiers.altKey = true;
+        else if (normalized === 'Meta') modifiers.metaKey = true;
+        else key = normalized;
     }
-    const windowTitle = file ? `📝 ${file.name}` : '📝 New Document';
-    const windowEl = createAppWindow(windowTitle, file?.content || '', 'docs');
-    const key = `docs-${Date.now()}`;
-    openWindows.set(key, windowEl);
-    const body = windowEl.querySelector('.window-body')!;
-    body.setAttribute('contenteditable', 'true');
-    body.setAttribute('spellcheck', 'false');
-    let currentFilename = file?.name || null;
-    if (currentFilename) {
-        openFiles.set(windowEl, { type: 'docs', name: currentFilename });
+    if (!key) throw new Error(`"${combo}" has no key besides modifiers.`);
+    return { key, modifiers };
+};
+
+// --- Safe HTML ---
+// File names, usernames, window titles, search results and model output are all
+// untrusted. Anything interpolated into markup goes through `escapeHtml`, URLs
+// through `safeUrl`, and rich document HTML through `cleanDocumentHtml`, which
+// rebuilds it from an allowlist.
+const SAFE_LINK_PROTOCOLS = ['http:', 'https:', 'mailto:'];
+const SAFE_IMAGE_PROTOCOLS = ['http:', 'https:'];
+const SAFE_DATA_IMAGE = /^data:image\/(png|jpe?g|gif|webp|bmp|svg\+xml);base64,[a-z0-9+/=\s]*$/i;
+
+/** Escapes text for element content and quoted attribute values. */
+const escapeHtml = (text: unknown) => String(text ?? '').replace(/[&<>"']/g, c => `&#${c.charCodeAt(0)};`);
+
+/** Returns the trimmed URL if it's safe to use as a link or image source, otherwise null. */
+const safeUrl = (url: unknown, kind: 'link' | 'image'): string | null => {
+    if (typeof url !== 'string') return null;
+    const trimmed = url.trim();
+    // Images may be embedded as base64 data URLs; nothing else may use the data: scheme.
+    if (kind === 'image' && SAFE_DATA_IMAGE.test(trimmed)) return trimmed;
+    try {
+        const { protocol } = new URL(trimmed);
+        return (kind === 'link' ? SAFE_LINK_PROTOCOLS : SAFE_IMAGE_PROTOCOLS).includes(protocol) ? trimmed : null;
+    } catch {
+        return null;
     }
-    const controls = windowEl.querySelector('.window-controls')!;
-    const saveBtn = document.createElement('button');
-    saveBtn.className = 'save-btn';
-    saveBtn.innerHTML = '💾';
-    saveBtn.title = 'Save File';
-    controls.prepend(saveBtn);
-    saveBtn.addEventListener('click', async () => {
-        let saveAsName = currentFilename || prompt("Save as:", currentFilename || "document.txt");
-        if (saveAsName) {
-            const docContent = body.innerHTML;
-            await saveFile('documents', saveAsName, docContent);
-            currentFilename = saveAsName;
-            openFiles.set(windowEl, { type: 'docs', name: currentFilename });
-            windowEl.querySelector('.window-title')!.textContent = `📝 ${currentFilename}`;
-        }
-    });
-    return windowEl;
 };
-const openBrowser = (): HTMLElement => {
-    if(openWindows.has('browser')) {
-        const win = openWindows.get('browser')!;
-        setActiveWindow(win);
-        return win;
+
+/** An <img> tag for `src`, or an empty string if the source isn't safe. */
+const renderImageTag = (src: unknown, alt: string): string => {
+    const url = safeUrl(src, 'image');
+    return url ? `<img src="${escapeHtml(url)}" alt="${escapeHtml(alt)}">` : '';
+};
+
+/** A link that opens in a new tab, or just the escaped text if the URL isn't safe. */
+const renderLink = (href: unknown, text: string): string => {
+    const url = safeUrl(href, 'link');
+    return url ? `<a href="${escapeHtml(url)}" target="_blank" rel="noopener noreferrer">${escapeHtml(text)}</a>` : escapeHtml(text);
+};
+
+// --- Rich Text Formatting ---
+// Documents are stored in a small markup subset: the tags below, links with
+// http(s)/mailto hrefs, images with src/alt, and text-align on block elements.
+const DOC_ALLOWED_TAGS = new Set(['p', 'h1', 'h2', 'h3', 'blockquote', 'ul', 'ol', 'li', 'pre', 'code', 'strong', 'em', 'u', 's', 'a', 'br', 'img']);
+const DOC_ALIGNABLE_TAGS = new Set(['p', 'h1', 'h2', 'h3', 'blockquote', 'li']);
+const DOC_TAG_RENAMES: Record<string, string> = { b: 'strong', i: 'em', strike: 's', del: 's', ins: 'u', div: 'p', h4: 'h3', h5: 'h3', h6: 'h3' };
+// Removed together with their contents; any other unknown element is unwrapped.
+const DOC_DROPPED_TAGS = new Set(['script', 'style', 'iframe', 'object', 'embed', 'template', 'head', 'title', 'meta', 'link', 'form', 'input', 'button', 'select', 'textarea']);
+
+// Inline styles that browsers use in place of tags, e.g. when merging lines.
+const inlineStyleTags = (el: HTMLElement): string[] => {
+    const tags: string[] = [];
+    const weight = el.style.fontWeight;
+    if (weight === 'bold' || parseInt(weight) >= 600) tags.push('strong');
+    if (el.style.fontStyle === 'italic') tags.push('em');
+    const decoration = el.style.textDecorationLine || el.style.textDecoration;
+    if (decoration.includes('underline')) tags.push('u');
+    if (decoration.includes('line-through')) tags.push('s');
+    return tags;
+};
+
+const cleanDocumentNode = (node: Node, doc: Document): Node[] => {
+    if (node.nodeType === Node.TEXT_NODE) return [doc.createTextNode(node.textContent || '')];
+    if (node.nodeType !== Node.ELEMENT_NODE) return [];
+    const el = node as HTMLElement;
+    const sourceTag = el.tagName.toLowerCase();
+    if (DOC_DROPPED_TAGS.has(sourceTag)) return [];
+    const children = Array.from(el.childNodes).flatMap(child => cleanDocumentNode(child, doc));
+    const tag = DOC_TAG_RENAMES[sourceTag] || sourceTag;
+    if (!DOC_ALLOWED_TAGS.has(tag)) {
+        // Unwrap, but keep formatting that was expressed as inline style.
+        return inlineStyleTags(el).reduceRight<Node[]>((inner, styleTag) => {
+            const wrapper = doc.createElement(styleTag);
+            wrapper.append(...inner);
+            return [wrapper];
+        }, children);
     }
-    const windowEl = createAppWindow('🌐 Web Browser', '', 'browser', true);
-    openWindows.set('browser', windowEl);
-    const body = windowEl.querySelector('.window-body')!;
-    body.innerHTML = `
-        <div class="browser-header">
-            <div class="browser-controls">
-                <div class="dot red"></div><div class="dot yellow"></div><div class="dot green"></div>
-            </div>
-            <div class="address-bar-container">
-                <input type="text" class="address-bar" placeholder="Search Google or type a URL">
-                <button class="search-button">Go</button>
-            </div>
-        </div>
-        <div class="browser-content">
-            <div class="browser-homepage">
-                <h1>AI Browser</h1>
-                <p>Search the web using the address bar.</p>
-            </div>
-        </div>
+    const clean = doc.createElement(tag);
+    if (tag === 'a') {
+        const href = safeUrl(el.getAttribute('href'), 'link');
+        if (!href) return children;
+        clean.setAttribute('href', href);
+    } else if (tag === 'img') {
+        const src = safeUrl(el.getAttribute('src'), 'image');
+        if (!src) return [];
+        clean.setAttribute('src', src);
+        clean.setAttribute('alt', el.getAttribute('alt') || '');
+        return [clean];
+    }
+    const align = el.style.textAlign || el.getAttribute('align') || '';
+    if (DOC_ALIGNABLE_TAGS.has(tag) && ['center', 'right', 'justify'].includes(align)) {
+        clean.style.textAlign = align;
+    }
+    clean.append(...children);
+    // Drop empty inline wrappers left behind by toggling a style on and off.
+    if (['strong', 'em', 'u', 's', 'code', 'a'].includes(tag) && !clean.textContent && !clean.querySelector('img')) return [];
+    return [clean];
+};
+
+/** Normalises document HTML to the stored markup subset. */
+const cleanDocumentHtml = (html: string): string => {
+    const doc = new DOMParser().parseFromString(html, 'text/html');
+    const container = doc.createElement('div');
+    container.append(...Array.from(doc.body.childNodes).flatMap(node => cleanDocumentNode(node, doc)));
+    return container.innerHTML;
+};
+
+type DocFormat =
+    | 'bold' | 'italic' | 'underline' | 'strikethrough' | 'code'
+    | 'heading1' | 'heading2' | 'heading3' | 'paragraph' | 'quote'
+    | 'bullet_list' | 'numbered_list' | 'link' | 'unlink'
+    | 'align_left' | 'align_center' | 'align_right' | 'clear';
+interface DocFormatSpec { command: string, value?: string, label: string, title: string, shortcut?: string }
+
+const docFormats: Record<DocFormat, DocFormatSpec> = {
+    bold: { command: 'bold', label: '<strong>B</strong>', title: 'Bold', shortcut: 'Ctrl+B' },
+    italic: { command: 'italic', label: '<em>I</em>', title: 'Italic', shortcut: 'Ctrl+I' },
+    underline: { command: 'underline', label: '<u>U</u>', title: 'Underline', shortcut: 'Ctrl+U' },
+    strikethrough: { command: 'strikeThrough', label: '<s>S</s>', title: 'Strikethrough', shortcut: 'Ctrl+Shift+X' },
+    code: { command: 'formatBlock', value: 'pre', label: 'Code', title: 'Code block' },
+    heading1: { command: 'formatBlock', value: 'h1', label: 'Heading 1', title: 'Heading 1', shortcut: 'Ctrl+Alt+1' },
+    heading2: { command: 'formatBlock', value: 'h2', label: 'Heading 2', title: 'Heading 2', shortcut: 'Ctrl+Alt+2' },
+    heading3: { command: 'formatBlock', value: 'h3', label: 'Heading 3', title: 'Heading 3', shortcut: 'Ctrl+Alt+3' },
+    paragraph: { command: 'formatBlock', value: 'p', label: 'Paragraph', title: 'Normal text', shortcut: 'Ctrl+Alt+0' },
+    quote: { command: 'formatBlock', value: 'blockquote', label: 'Quote', title: 'Quote' },
+    bullet_list: { command: 'insertUnorderedList', label: '•', title: 'Bulleted list', shortcut: 'Ctrl+Shift+8' },
+    numbered_list: { command: 'insertOrderedList', label: '1.', title: 'Numbered list', shortcut: 'Ctrl+Shift+7' },
+    link: { command: 'createLink', label: '🔗', title: 'Link', shortcut: 'Ctrl+K' },
+    unlink: { command: 'unlink', label: '<s>🔗</s>', title: 'Remove link' },
+    align_left: { command: 'justifyLeft', label: '⇤', title: 'Align left', shortcut: 'Ctrl+Shift+L' },
+    align_center: { command: 'justifyCenter', label: '↔', title: 'Center', shortcut: 'Ctrl+Shift+E' },
+    align_right: { command: 'justifyRight', label: '⇥', title: 'Align right', shortcut: 'Ctrl+Shift+R' },
+    clear: { command: 'removeFormat', label: '⌫', title: 'Clear formatting' },
+};
+const docFormatNames = Object.keys(docFormats) as DocFormat[];
+const DOC_BLOCK_FORMATS: DocFormat[] = ['paragraph', 'heading1', 'heading2', 'heading3', 'quote', 'code'];
+const DOC_TOOLBAR_BUTTONS: DocFormat[] = ['bold', 'italic', 'underline', 'strikethrough', 'bullet_list', 'numbered_list', 'link', 'unlink', 'align_left', 'align_center', 'align_right', 'clear'];
+
+const isDocFormat = (style: string): style is DocFormat => docFormatNames.includes(style as DocFormat);
+
+/**
+ * Applies a format to the selection in a document body (or the caret's block).
+ * Block formats apply to whole paragraphs, so they work with a collapsed caret too.
+ */
+const applyDocFormat = (body: HTMLElement, style: string, url?: string) => {
+    if (!isDocFormat(style)) throw new Error(`Unknown format "${style}". Use one of: ${docFormatNames.join(', ')}.`);
+    const spec = docFormats[style];
+    let value = spec.value;
+    if (style === 'link') {
+        if (!url || !/^(https?:|mailto:)/i.test(url.trim())) throw new Error('A link needs an http(s) or mailto: URL.');
+        if (window.getSelection()!.isCollapsed) throw new Error('Select the text to turn into a link first.');
+        value = url.trim();
+    }
+    focusEditable(body);
+    document.execCommand('styleWithCSS', false, 'false');
+    // formatBlock toggles back to a paragraph when the block already has the format.
+    if (spec.command === 'formatBlock' && style !== 'paragraph' && document.queryCommandValue('formatBlock').toLowerCase() === value) {
+        value = 'p';
+    }
+    document.execCommand(spec.command, false, value);
+};
+
+// Shortcuts use the physical key for digits, since Shift changes what they type.
+const getShortcutName = (e: KeyboardEvent): string => {
+    const key = e.code?.startsWith('Digit') ? e.code.slice(5) : e.key.length === 1 ? e.key.toUpperCase() : e.key;
+    return `${e.ctrlKey || e.metaKey ? 'Ctrl+' : ''}${e.altKey ? 'Alt+' : ''}${e.shiftKey ? 'Shift+' : ''}${key}`;
+};
+const docShortcuts = new Map(docFormatNames.filter(name => docFormats[name].shortcut).map(name => [docFormats[name].shortcut!, name]));
+
+const updateDocToolbar = (toolbar: HTMLElement) => {
+    for (const button of toolbar.querySelectorAll<HTMLButtonElement>('button[data-format]')) {
+        const spec = docFormats[button.dataset.format as DocFormat];
+        let active = false;
+        try {
+            active = document.queryCommandState(spec.command);
+        } catch { /* Not every command reports a state. */ }
+        button.classList.toggle('active', active);
+    }
+    const blockSelect = toolbar.querySelector('select') as HTMLSelectElement;
+    const block = document.queryCommandValue('formatBlock').toLowerCase();
+    blockSelect.value = DOC_BLOCK_FORMATS.find(name => docFormats[name].value === block) || 'paragraph';
+};
+
+/** Adds the formatting toolbar and keyboard shortcuts to a Document Writer window. */
+const createDocToolbar = (windowEl: HTMLElement, body: HTMLElement) => {
+    const toolbar = document.createElement('div');
+    toolbar.className = 'doc-toolbar';
+    toolbar.setAttribute('role', 'toolbar');
+    toolbar.innerHTML = `
+        <select class="doc-block-format" title="Text style">
+            ${DOC_BLOCK_FORMATS.map(name => `<option value="${name}">${docFormats[name].label}</option>`).join('')}
+        </select>
+        ${DOC_TOOLBAR_BUTTONS.map(name => {
+            const spec = docFormats[name];
+            const title = spec.shortcut ? `${spec.title} (${spec.shortcut})` : spec.title;
+            return `<button class="format-${name} doc-format-btn" data-format="${name}" title="${title}" aria-label="${spec.title}">${spec.label}</button>`;
+        }).join('')}
     `;
-    const addressBar = body.querySelector('.address-bar') as HTMLInputElement;
-    const searchButton = body.querySelector('.search-button') as HTMLButtonElement;
-    const browserContent = body.querySelector('.browser-content')!;
-    browserState.set(windowEl, { query: '', sources: [], summary: '' });
-    const performSearch = async () => {
-        const query = addressBar.value.trim();
-        if (!query) return;
-        browserContent.innerHTML = `<div class="placeholder"><div class="spinner"></div>Searching for "${query}"...</div>`;
+    windowEl.insertBefore(toolbar, body);
+
+    // The selection is lost when the block style dropdown takes focus, so keep a copy.
+    let savedRange: Range | null = null;
+    body.addEventListener('blur', () => {
+        savedRange = selectionIsInside(body) ? window.getSelection()!.getRangeAt(0).cloneRange() : null;
+    });
+    const restoreSelection = () => {
+        if (selectionIsInside(body) || !savedRange) return;
+        const selection = window.getSelection()!;
+        selection.removeAllRanges();
+        selection.addRange(savedRange);
+    };
+    const formatFromUser = (style: DocFormat) => {
+        restoreSelection();
+        let url: string | undefined;
+        if (style === 'link') {
+            url = prompt('Link to:', 'https://') || undefined;
+            if (!url) return;
+        }
+        const text = selectionIsInside(body) ? window.getSelection()!.toString() : '';
         try {
-            if (aiInitializationError) throw new Error(aiInitializationError);
-            const response = await ai.models.generateContent({
-                model: "gemini-2.5-flash",
-                contents: `Summarize information about "${query}" from the web.`,
-                config: { tools: [{ googleSearch: {} }] },
-            });
-            const summary = response.text;
-            const sources = response.candidates?.[0]?.groundingMetadata?.groundingChunks || [];
-            browserState.set(windowEl, { query, sources, summary });
-            renderSearchResults(windowEl);
+            applyDocFormat(body, style, url);
         } catch (error) {
-            console.error('Browser Search Error:', error);
-            browserContent.innerHTML = `<div class="placeholder error">Sorry, something went wrong with the search.</div>`;
+            showToast((error as Error).message);
+            return;
         }
+        recordMacroStep({ action: 'format_text', style, ...(text ? { text } : {}), ...(url ? { url } : {}) });
+        updateDocToolbar(toolbar);
     };
-    addressBar.addEventListener('keydown', (e) => {
-        if (e.key === 'Enter') {
-            performSearch();
-        }
+
+    // Keep the document's selection when a toolbar button is pressed.
+    toolbar.addEventListener('mousedown', (e) => {
+        if ((e.target as HTMLElement).closest('button')) e.preventDefault();
     });
-    searchButton.addEventListener('click', performSearch);
-    return windowEl;
+    toolbar.addEventListener('click', (e) => {
+        const button = (e.target as HTMLElement).closest('button[data-format]') as HTMLButtonElement | null;
+        if (button) formatFromUser(button.dataset.format as DocFormat);
+    });
+    toolbar.querySelector('select')!.addEventListener('change', (e) => {
+        formatFromUser((e.target as HTMLSelectElement).value as DocFormat);
+    });
+    body.addEventListener('keydown', (e) => {
+        if (!(e.ctrlKey || e.metaKey)) return;
+        const style = docShortcuts.get(getShortcutName(e));
+        if (!style) return;
+        e.preventDefault();
+        formatFromUser(style);
+    });
+    body.addEventListener('keyup', () => updateDocToolbar(toolbar));
+    body.addEventListener('mouseup', () => updateDocToolbar(toolbar));
+    return toolbar;
 };
-const renderSearchResults = (windowEl: HTMLElement) => {
-    const state = browserState.get(windowEl);
-    if (!state) return;
-    const { query, sources } = state;
-    const browserContent = windowEl.querySelector('.browser-content')!;
-    const resultsHtml = sources.map((source: any, index: number) => `
-        <div class="google-result" data-index="${index}">
-            <div class="google-result-url">${source.web?.uri || 'Unknown Source'}</div>
-            <h3 class="google-result-title">${source.web?.title || 'Untitled'}</h3>
-            <p class="google-result-snippet">A summary of this content is available.</p>
-        </div>
-    `).join('');
-    browserContent.innerHTML = `
-        <div class="google-serp-container">
-            <div class="google-header">
-                <span class="google-logo">AI Search</span>
-                <div class="google-search-bar-container">
-                     <span class="google-search-icon">🔍</span>
-                    <input type="text" class="google-search-bar" value="${query}" readonly>
+
+// --- Find & Replace ---
+interface FindOptions { matchCase: boolean, wholeWord: boolean, regex: boolean }
+interface TextSegment { node: Text, start: number }
+interface TextIndex { text: string, segments: TextSegment[] }
+
+const FIND_HIGHLIGHT = 'find-match';
+const FIND_CURRENT_HIGHLIGHT = 'find-current';
+
+/**
+ * Flattens the text under `root`, with a newline wherever a block or <br> separates two runs of text,
+ * so matches don't run across paragraphs by accident.
+ */
+const buildTextIndex = (root: HTMLElement): TextIndex => {
+    const index: TextIndex = { text: '', segments: [] };
+    const walk = (node: Node) => {
+        if (node.nodeType === Node.TEXT_NODE) {
+            index.segments.push({ node: node as Text, start: index.text.length });
+            index.text += node.textContent;
+            return;
+        }
+        const isBreak = node.nodeName === 'BR' || BLOCK_TAGS.has(node.nodeName);
+        if (isBreak && index.text && !index.text.endsWith('\n')) index.text += '\n';
+        node.childNodes.forEach(walk);
+        if (isBreak && index.text && !index.text.endsWith('\n')) index.text += '\n';
+    };
+    root.childNodes.forEach(walk);
+    return index;
+};
+
+// Maps a character offset in the index back to a DOM position.
+const indexToPosition = (index: TextIndex, offset: number, isEnd: boolean): [Text, number] | null => {
+    for (let i = 0; i < index.segments.length; i++) {
+        const { node, start } = index.segments[i];
+        const end = start + (node.textContent || '').length;
+        // Prefer the earlier node for a match's end and the later one for its start.
+        if (offset < end || (offset === end && (isEnd || i === index.segments.length - 1))) {
+            return offset >= start ? [node, offset - start] : [node, 0];
+        }
+    }
+    return null;
+};
+
+const buildSearchPattern = (query: string, options: FindOptions): RegExp => {
+    let source = options.regex ? query : query.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    if (options.wholeWord) source = `\\b(?:${source})\\b`;
+    try {
+        return new RegExp(source, options.matchCase ? 'g' : 'gi');
+    } catch (error) {
+        throw new Error(`Invalid regular expression: ${(error as Error).message}`);
+    }
+};
+
+/** Finds every match of `query` in the element's text, as ranges in document order. */
+const findTextRanges = (root: HTMLElement, query: string, options: FindOptions): Range[] => {
+    if (!query) return [];
+    const index = buildTextIndex(root);
+    const pattern = buildSearchPattern(query, options);
+    const ranges: Range[] = [];
+    for (const match of index.text.matchAll(pattern)) {
+        // Empty matches (e.g. /x*/) can't be highlighted or replaced.
+        if (!match[0]) continue;
+        const start = indexToPosition(index, match.index!, false);
+        const end = indexToPosition(index, match.index! + match[0].length, true);
+        if (!start || !end) continue;
+        const range = document.createRange();
+        range.setStart(...start);
+        range.setEnd(...end);
+        ranges.push(range);
+    }
+    return ranges;
+};
+
+/** Replaces a matched range with plain text. With a regex, `$1`-style groups in `replacement` are expanded. */
+const replaceTextRange = (range: Range, query: string, replacement: string, options: FindOptions) => {
+    const text = options.regex ? range.toString().replace(new RegExp(buildSearchPattern(query, options).source, options.matchCase ? '' : 'i'), replacement) : replacement;
+    range.deleteContents();
+    if (text) range.insertNode(document.createTextNode(text));
+};
+
+const clearFindHighlights = () => {
+    if (!('highlights' in CSS)) return;
+    CSS.highlights.delete(FIND_HIGHLIGHT);
+    CSS.highlights.delete(FIND_CURRENT_HIGHLIGHT);
+};
+
+// Highlights are painted by the browser without touching the document's markup.
+const showFindHighlights = (ranges: Range[], current: number) => {
+    if (!('highlights' in CSS)) return;
+    CSS.highlights.set(FIND_HIGHLIGHT, new Highlight(...ranges));
+    if (ranges[current]) CSS.highlights.set(FIND_CURRENT_HIGHLIGHT, new Highlight(ranges[current]));
+    else CSS.highlights.delete(FIND_CURRENT_HIGHLIGHT);
+};
+
+/** Adds a find/replace bar (Ctrl+F / Ctrl+H) between the toolbar and the body of a Document Writer window. */
+const createFindBar = (body: HTMLElement) => {
+    const bar = document.createElement('div');
+    bar.className = 'doc-find-bar hidden';
+    bar.innerHTML = `
+        <input type="text" class="find-input" placeholder="Find" aria-label="Find">
+        <input type="text" class="replace-input" placeholder="Replace with" aria-label="Replace with">
+        <label title="Match case"><input type="checkbox" class="find-match-case"> Aa</label>
+        <label title="Whole word"><input type="checkbox" class="find-whole-word"> ab|</label>
+        <label title="Regular expression"><input type="checkbox" class="find-regex"> .*</label>
+        <span class="find-count"></span>
+        <button class="find-prev-btn" title="Previous match (Shift+Enter)">↑</button>
+        <button class="find-next-btn" title="Next match (Enter)">↓</button>
+        <button class="replace-btn" title="Replace this match">Replace</button>
+        <button class="replace-all-btn" title="Replace every match">All</button>
+        <button class="find-close-btn" title="Close (Esc)">&times;</button>
+    `;
+    body.before(bar);
+    const findInput = bar.querySelector('.find-input') as HTMLInputElement;
+    const replaceInput = bar.querySelector('.replace-input') as HTMLInputElement;
+    const countEl = bar.querySelector('.find-count') as HTMLElement;
+    let ranges: Range[] = [];
+    let current = 0;
+
+    const getOptions = (): FindOptions => ({
+        matchCase: (bar.querySelector('.find-match-case') as HTMLInputElement).checked,
+        wholeWord: (bar.querySelector('.find-whole-word') as HTMLInputElement).checked,
+        regex: (bar.querySelector('.find-regex') as HTMLInputElement).checked,
+    });
+    const search = (keepPosition = false) => {
+        try {
+            ranges = findTextRanges(body, findInput.value, getOptions());
+            bar.classList.remove('invalid');
+        } catch (error) {
+            ranges = [];
+            bar.classList.add('invalid');
+            countEl.textContent = (error as Error).message;
+            clearFindHighlights();
+            return;
+        }
+        if (!keepPosition || current >= ranges.length) current = 0;
+        countEl.textContent = findInput.value ? (ranges.length ? `${current + 1} of ${ranges.length}` : 'No results') : '';
+        showFindHighlights(ranges, current);
+        ranges[current]?.startContainer.parentElement?.scrollIntoView({ block: 'nearest' });
+    };
+    const step = (delta: number) => {
+        if (ranges.length === 0) return;
+        current = (current + delta + ranges.length) % ranges.length;
+        countEl.textContent = `${current + 1} of ${ranges.length}`;
+        showFindHighlights(ranges, current);
+        ranges[current].startContainer.parentElement?.scrollIntoView({ block: 'nearest' });
+    };
+    const replace = (all: boolean) => {
+        if (ranges.length === 0) return;
+        const options = getOptions();
+        // Replace from the end so earlier ranges stay valid.
+        const targets = all ? [...ranges].reverse() : [ranges[current]];
+        targets.forEach(range => replaceTextRange(range, findInput.value, replaceInput.value, options));
+        notifyInput(body, 'insertReplacementText');
+        showToast(all ? `Replaced ${targets.length} match${targets.length === 1 ? '' : 'es'}.` : 'Replaced 1 match.');
+        search(!all);
+    };
+    const open = (withReplace: boolean) => {
+        bar.classList.remove('hidden');
+        bar.classList.toggle('with-replace', withReplace || bar.classList.contains('with-replace'));
+        const selected = getSelectedText(body);
+        if (selected && !selected.includes('\n')) findInput.value = selected;
+        findInput.focus();
+        findInput.select();
+        search();
+    };
+    const close = () => {
+        bar.classList.add('hidden');
+        clearFindHighlights();
+        body.focus();
+    };
+
+    findInput.addEventListener('input', () => search());
+    bar.querySelectorAll('input[type="checkbox"]').forEach(box => box.addEventListener('change', () => search()));
+    findInput.addEventListener('keydown', (e) => {
+        if (e.key === 'Enter') {
+            e.preventDefault();
+            step(e.shiftKey ? -1 : 1);
+        }
+    });
+    replaceInput.addEventListener('keydown', (e) => {
+        if (e.key === 'Enter') {
+            e.preventDefault();
+            replace(false);
+        }
+    });
+    bar.addEventListener('keydown', (e) => {
+        if (e.key === 'Escape') {
+            e.stopPropagation();
+            close();
+        }
+    });
+    bar.querySelector('.find-prev-btn')!.addEventListener('click', () => step(-1));
+    bar.querySelector('.find-next-btn')!.addEventListener('click', () => step(1));
+    bar.querySelector('.replace-btn')!.addEventListener('click', () => replace(false));
+    bar.querySelector('.replace-all-btn')!.addEventListener('click', () => replace(true));
+    bar.querySelector('.find-close-btn')!.addEventListener('click', close);
+    body.addEventListener('keydown', (e) => {
+        const shortcut = getShortcutName(e);
+        if (shortcut === 'Ctrl+F' || shortcut === 'Ctrl+H') {
+            e.preventDefault();
+            open(shortcut === 'Ctrl+H');
+        }
+    });
+    // Edits shift the text, so stale ranges are refreshed.
+    body.addEventListener('input', () => {
+        if (!bar.classList.contains('hidden')) search(true);
+    });
+    return { open };
+};
+
+/**
+ * Applies find/replace edits to a copy of the document HTML and returns the result.
+ * Each edit replaces the first occurrence of its exact text, or every occurrence with `all`.
+ */
+const applyDocumentEdits = (html: string, edits: DocumentEdit[], all = false): string => {
+    // Parsed in an inert document, so nothing in the markup loads or runs while it's edited.
+    const container = new DOMParser().parseFromString(html, 'text/html').body;
+    const options: FindOptions = { matchCase: true, wholeWord: false, regex: false };
+    const missing: string[] = [];
+    for (const edit of edits) {
+        const ranges = findTextRanges(container, edit.find, options);
+        if (ranges.length === 0) {
+            missing.push(`"${truncate(edit.find, 60)}"`);
+            continue;
+        }
+        (all ? ranges.reverse() : [ranges[0]]).forEach(range => replaceTextRange(range, edit.find, edit.replace, options));
+    }
+    if (missing.length > 0) throw new Error(`Couldn't find ${missing.join(', ')} in the document. Match the document text exactly.`);
+    return container.innerHTML;
+};
+
+// --- Desktop Snapshot ---
+// A bounded, structured view of the desktop for the model: each window's
+// interactive elements with selectors it can use directly, plus excerpts of
+// the text it is showing.
+const MAX_ELEMENTS_PER_WINDOW = 30;
+const MAX_WINDOW_TEXT = 1500;
+const MAX_DESKTOP_STATE_CHARS = 12000;
+const INTERACTIVE_SELECTOR = 'button, input, textarea, select, a[href], [contenteditable="true"], .google-result, .file-item-row, .file-grid-item';
+
+interface SnapshotElement { role: string, label: string, selector: string, value?: string }
+interface WindowSnapshot {
+    id: string;
+    app: string;
+    title: string;
+    active: boolean;
+    maximized: boolean;
+    minimized: boolean;
+    unsaved: boolean;
+    left: number;
+    top: number;
+    width: number;
+    height: number;
+    elements: SnapshotElement[];
+    omittedElements: number;
+    text?: string;
+    /** The Doodle Pad's drawing area: where it is on the desktop and its size in canvas coordinates. */
+    canvas?: { left: number, top: number, width: number, height: number };
+}
+interface DesktopSnapshot {
+    width: number;
+    height: number;
+    cursor: { x: number, y: number };
+    clipboard: string;
+    focused: string | null;
+    icons: SnapshotElement[];
+    macros: string[];
+    windows: WindowSnapshot[];
+}
+
+let snapshotIdCounter = 0;
+
+/**
+ * Returns a selector that matches only `el`, preferring readable class-based
+ * selectors scoped to the window. Falls back to stamping a `data-ax` attribute.
+ */
+const getUniqueSelector = (el: HTMLElement, windowEl: HTMLElement | null): string => {
+    if (el.id) return `#${el.id}`;
+    const scope = windowEl ? `#${windowEl.id} ` : '';
+    const attrs = (['index', 'filename', 'view'] as const)
+        .filter(key => el.dataset[key] !== undefined)
+        .map(key => `[data-${key}="${CSS.escape(el.dataset[key]!)}"]`)
+        .join('');
+    const className = Array.from(el.classList).find(c => c !== 'active');
+    if (className) {
+        const candidate = `${scope}.${CSS.escape(className)}${attrs}`;
+        if (document.querySelectorAll(candidate).length === 1) return candidate;
+    }
+    if (!el.dataset.ax) el.dataset.ax = String(++snapshotIdCounter);
+    return `${scope}[data-ax="${el.dataset.ax}"]`;
+};
+
+const describeRole = (el: HTMLElement): string => {
+    if (el.matches('.google-result')) return 'search result';
+    if (el.matches('.file-item-row, .file-grid-item')) return 'file';
+    if (el.matches('[contenteditable="true"]')) return 'editable document';
+    if (el.matches('a')) return 'link';
+    if (el.matches('input')) return `${(el as HTMLInputElement).type || 'text'} input`;
+    return el.tagName.toLowerCase();
+};
+
+const describeLabel = (el: HTMLElement): string => {
+    if (el.matches('.google-result')) return el.querySelector('.google-result-title')?.textContent?.trim() || 'Untitled';
+    if (el.matches('.file-item-row, .file-grid-item')) return el.dataset.filename || '';
+    if (el.matches('[contenteditable="true"]')) return 'Document body';
+    const label = el.getAttribute('aria-label') || el.title || (el as HTMLInputElement).placeholder || el.textContent || '';
+    return truncate(label.replace(/\s+/g, ' ').trim(), 60);
+};
+
+const snapshotElement = (el: HTMLElement, windowEl: HTMLElement | null): SnapshotElement => {
+    const element: SnapshotElement = { role: describeRole(el), label: describeLabel(el), selector: getUniqueSelector(el, windowEl) };
+    if (el.matches('input, textarea') && (el as HTMLInputElement).value) {
+        element.value = truncate((el as HTMLInputElement).value, 100);
+    }
+    return element;
+};
+
+// The readable content of a window, e.g. the document text or the page the browser shows.
+const getWindowText = (windowEl: HTMLElement): string | undefined => {
+    const app = windowEl.dataset.app;
+    let text = '';
+    if (app === 'docs') {
+        text = htmlToText(windowEl.querySelector('.window-body')!.innerHTML);
+    } else if (app === 'browser') {
+        const state = browserState.get(windowEl);
+        const tabs = state?.tabs.map((tab, i) => `${i + 1}. ${getBrowserTabTitle(tab)}${tab.id === state.activeTabId ? ' (active)' : ''}`) || [];
+        text = `Tabs: ${tabs.join(' | ')}\n${windowEl.querySelector('.browser-content')?.textContent || ''}`;
+    } else if (app === 'studio') {
+        const state = studioState.get(windowEl);
+        text = windowEl.querySelector('.image-prompt')?.textContent || '';
+        if (state?.images.length) {
+            text += `\nGallery: ${state.images.length} image${state.images.length === 1 ? '' : 's'}${state.selected >= 0 ? `, image ${state.selected + 1} selected` : ''}`;
+        }
+    }
+    text = text.replace(/[ \t]+/g, ' ').replace(/\n\s*\n+/g, '\n').trim();
+    return text ? truncate(text, MAX_WINDOW_TEXT) : undefined;
+};
+
+const captureDesktopSnapshot = (): DesktopSnapshot => {
+    const desktopRect = desktop.getBoundingClientRect();
+    const focusedEl = document.activeElement as HTMLElement | null;
+    const focusedWindow = focusedEl?.closest('.app-window') as HTMLElement | null;
+    const windows = Array.from(openWindows.values()).map((win): WindowSnapshot => {
+        const winRect = win.getBoundingClientRect();
+        // Minimized windows have no layout, so they report no elements.
+        const candidates = Array.from(win.querySelectorAll<HTMLElement>(INTERACTIVE_SELECTOR))
+            .filter(el => el.getClientRects().length > 0);
+        return {
+            id: win.id,
+            app: win.dataset.app || 'unknown',
+            title: getWindowTitle(win),
+            active: win === activeWindow,
+            maximized: win.classList.contains('maximized'),
+            minimized: win.classList.contains('minimized'),
+            unsaved: isWindowDirty(win),
+            left: Math.round(winRect.left - desktopRect.left),
+            top: Math.round(winRect.top - desktopRect.top),
+            width: Math.round(winRect.width),
+            height: Math.round(winRect.height),
+            elements: candidates.slice(0, MAX_ELEMENTS_PER_WINDOW).map(el => snapshotElement(el, win)),
+            omittedElements: Math.max(0, candidates.length - MAX_ELEMENTS_PER_WINDOW),
+            text: getWindowText(win),
+            canvas: getDoodleCanvasSnapshot(win, desktopRect),
+        };
+    });
+    return {
+        width: Math.round(desktopRect.width),
+        height: Math.round(desktopRect.height),
+        cursor: { x: Math.round(parseFloat(cursor.style.left || '0')), y: Math.round(parseFloat(cursor.style.top || '0')) },
+        clipboard: clipboard ? clipboard.type : 'empty',
+        focused: focusedEl && focusedEl !== document.body && desktop.contains(focusedEl) ? getUniqueSelector(focusedEl, focusedWindow) : null,
+        icons: Array.from(document.querySelectorAll<HTMLElement>('#desktop-icons .icon')).map(icon => ({
+            role: 'icon', label: icon.getAttribute('aria-label') || '', selector: `#${icon.id}`,
+        })),
+        macros: Object.keys(getMacros()),
+        windows,
+    };
+};
+
+const formatSnapshotElement = (element: SnapshotElement) =>
+    `${element.role} "${element.label}"${element.value ? ` (value: "${element.value}")` : ''} → ${element.selector}`;
+
+const getDesktopState = (): string => {
+    const snapshot = captureDesktopSnapshot();
+    const lines = [
+        `Desktop Dimensions: ${snapshot.width}px wide, ${snapshot.height}px tall.`,
+        `Cursor Position: { x: ${snapshot.cursor.x}px, y: ${snapshot.cursor.y}px }`,
+        `Clipboard: ${snapshot.clipboard}`,
+        `Focused Element: ${snapshot.focused || 'none'}`,
+        `Desktop Icons: ${snapshot.icons.map(icon => `${icon.label} → ${icon.selector}`).join(', ')}`,
+    ];
+    if (snapshot.macros.length > 0) {
+        lines.push(`Saved macros: ${snapshot.macros.map(name => `"${name}"`).join(', ')}`);
+    }
+    if (snapshot.windows.length === 0) {
+        lines.push('The desktop is empty. No windows are open.');
+        return lines.join('\n');
+    }
+    const taskbar = snapshot.windows.map(win => `"${win.title}" → #${win.id}${win.minimized ? ' (minimized)' : win.active ? ' (active)' : ''}`);
+    lines.push(`Taskbar: ${taskbar.join(', ')}`);
+    lines.push('Open Windows:');
+    for (const win of snapshot.windows) {
+        const pos = `Position: { left: ${win.left}px, top: ${win.top}px }`;
+        const size = `Size: { width: ${win.width}px, height: ${win.height}px }`;
+        lines.push(`- Window ID: #${win.id}, App: ${win.app}, Title: "${win.title}", Active: ${win.active}, Maximized: ${win.maximized}, Minimized: ${win.minimized}, Unsaved changes: ${win.unsaved}, ${pos}, ${size}`);
+        if (win.elements.length > 0) {
+            lines.push('  Interactive elements:');
+            win.elements.forEach(element => lines.push(`    - ${formatSnapshotElement(element)}`));
+            if (win.omittedElements > 0) lines.push(`    - …and ${win.omittedElements} more`);
+        }
+        if (win.text) {
+            lines.push(`  Visible text: ${JSON.stringify(win.text)}`);
+        }
+        if (win.canvas) {
+            lines.push(`  Canvas: ${win.canvas.width}x${win.canvas.height} (doodle coordinates), top-left corner at { left: ${win.canvas.left}px, top: ${win.canvas.top}px } on the desktop`);
+        }
+    }
+    const state = lines.join('\n');
+    return state.length > MAX_DESKTOP_STATE_CHARS ? `${state.slice(0, MAX_DESKTOP_STATE_CHARS)}\n[Desktop state truncated]` : state;
+};
+
+// --- Run Control ---
+// A run is one answer to a user request, from planning until the last action.
+// `sleep` and the cursor animations check the current run, so Stop takes
+// effect mid-action and Pause takes effect at the next character or step.
+interface RunControl {
+    controller: AbortController;
+    paused: boolean;
+    /** When set, the run pauses again before every action. */
+    stepMode: boolean;
+    /** Wakes up whatever is waiting on a pause. */
+    release: (() => void) | null;
+}
+let currentRun: RunControl | null = null;
+
+const createCancelledError = () => new DOMException('Stopped by the user.', 'AbortError');
+const isCancelledError = (error: unknown) => (error as { name?: string } | null)?.name === 'AbortError';
+
+const throwIfCancelled = () => {
+    if (currentRun?.controller.signal.aborted) throw createCancelledError();
+};
+
+const updateRunControls = (status?: string) => {
+    runControls.classList.toggle('hidden', !currentRun);
+    if (!currentRun) return;
+    pauseRunButton.textContent = currentRun.paused ? '▶ Resume' : '⏸ Pause';
+    runStatus.textContent = status || (currentRun.paused ? 'Paused' : 'Running…');
+};
+
+const beginRun = () => {
+    currentRun = { controller: new AbortController(), paused: false, stepMode: false, release: null };
+    updateRunControls();
+};
+
+const endRun = () => {
+    currentRun = null;
+    updateRunControls();
+};
+
+const stopRun = () => {
+    if (!currentRun) return;
+    currentRun.controller.abort();
+    currentRun.release?.();
+    updateRunControls('Stopping…');
+};
+
+const toggleRunPause = () => {
+    if (!currentRun) return;
+    currentRun.stepMode = false;
+    currentRun.paused = !currentRun.paused;
+    if (!currentRun.paused) currentRun.release?.();
+    updateRunControls();
+};
+
+// Runs exactly one more action, then pauses again.
+const stepRun = () => {
+    if (!currentRun) return;
+    currentRun.stepMode = true;
+    currentRun.paused = false;
+    currentRun.release?.();
+    updateRunControls();
+};
+
+const waitWhilePaused = async () => {
+    const run = currentRun;
+    while (run && run.paused && !run.controller.signal.aborted) {
+        await new Promise<void>(resolve => { run.release = resolve; });
+        run.release = null;
+    }
+    throwIfCancelled();
+};
+
+/** Called before each action: honours Stop, Pause and step mode. */
+const waitForActionTurn = async (label: string) => {
+    throwIfCancelled();
+    if (currentRun?.stepMode) {
+        currentRun.paused = true;
+        updateRunControls(`Step mode: next is "${label}"`);
+    }
+    await waitWhilePaused();
+};
+
+// --- Agent Mode ---
+// In agent mode the assistant plans in steps: after each batch of actions the
+// new desktop state and the per-action results go back to the model.
+const AGENT_SETTINGS_KEY = 'ai_workstation_agent';
+const DEFAULT_AGENT_MAX_STEPS = 8;
+const MAX_AGENT_STEPS = 25;
+
+const loadAgentSettings = (): { enabled: boolean, maxSteps: number } => {
+    try {
+        const stored = JSON.parse(localStorage.getItem(AGENT_SETTINGS_KEY) || '{}');
+        const maxSteps = Number(stored.maxSteps);
+        return {
+            enabled: stored.enabled === true,
+            maxSteps: Number.isInteger(maxSteps) && maxSteps >= 1 ? Math.min(maxSteps, MAX_AGENT_STEPS) : DEFAULT_AGENT_MAX_STEPS,
+        };
+    } catch (e) {
+        console.error("Error reading agent settings:", e);
+        return { enabled: false, maxSteps: DEFAULT_AGENT_MAX_STEPS };
+    }
+};
+let agentSettings = loadAgentSettings();
+
+const saveAgentSettings = () => {
+    localStorage.setItem(AGENT_SETTINGS_KEY, JSON.stringify(agentSettings));
+};
+
+const addStepIndicator = (step: number, maxSteps: number) => {
+    const indicatorEl = document.createElement('div');
+    indicatorEl.className = 'chat-step-indicator';
+    indicatorEl.textContent = `Step ${step} of up to ${maxSteps}`;
+    chatHistory.appendChild(indicatorEl);
+    chatHistory.scrollTop = chatHistory.scrollHeight;
+    return indicatorEl;
+};
+
+// --- High-level actions, AI prompt, execution logic ---
+const addMessage = (sender: 'user' | 'assistant', text: string, thinking = false) => {
+  const messageEl = document.createElement('div');
+  messageEl.classList.add('chat-message', sender);
+  if (thinking) {
+    messageEl.classList.add('thinking');
+    messageEl.innerHTML = `<div class="spinner"></div><span>${escapeHtml(text)}</span>`;
+  } else {
+    messageEl.textContent = text;
+  }
+  chatHistory.appendChild(messageEl);
+  chatHistory.scrollTop = chatHistory.scrollHeight;
+  return messageEl;
+};
+const handleUserInput = async () => {
+  const prompt = chatInput.value.trim();
+  if (!prompt || isTestingMode) return;
+  addMessage('user', prompt);
+  chatInput.value = '';
+  chatInput.style.height = 'auto';
+  sendButton.disabled = true;
+  const { enabled: agentMode } = agentSettings;
+  const maxSteps = agentMode ? agentSettings.maxSteps : 1;
+  let thinkingMessage: HTMLElement | null = null;
+  beginRun();
+  try {
+    const provider = getActiveProvider();
+    for (let step = 1; step <= maxSteps; step++) {
+      if (agentMode) addStepIndicator(step, maxSteps);
+      thinkingMessage = addMessage('assistant', 'Thinking...', true);
+      const request = step === 1 ? prompt : `Continue working on my request: "${prompt}"`;
+      const stepRequest = agentMode ? `${request}\n[Agent mode: step ${step} of at most ${maxSteps}]` : request;
+      // The desktop is re-captured on every step so the model sees the effect of its last batch.
+      const decision = await provider.planActions(getDesktopState(), stepRequest, conversation);
+      thinkingMessage.remove();
+      thinkingMessage = null;
+      throwIfCancelled();
+      if (!decision.sequence) {
+        addMessage('assistant', "I'm not sure how to respond to that.");
+        break;
+      }
+      const report = await executeActionSequence(decision.sequence);
+      recordExchange({ request: stepRequest, sequence: decision.sequence, outcome: formatSequenceReport(report) });
+      if (report.cancelled) {
+        addMessage('assistant', 'Stopped.');
+        break;
+      }
+      // A failed or rejected batch always gets another step, so the model can correct it.
+      if (!agentMode || (decision.done !== false && report.completed)) break;
+      if (step === maxSteps) {
+        addMessage('assistant', `I stopped after ${maxSteps} steps without finishing. Ask me to continue if there's more to do.`);
+      }
+    }
+  } catch (error) {
+    thinkingMessage?.remove();
+    if (isCancelledError(error)) {
+      addMessage('assistant', 'Stopped.');
+    } else {
+      console.error("Error processing user input:", error);
+      addMessage('assistant', `Sorry, I encountered an error: ${(error as Error).message}`);
+    }
+  } finally {
+    endRun();
+    sendButton.disabled = false;
+  }
+};
+// Sleeps are where runs can be stopped or paused, so they reject once the current run is stopped.
+const sleep = (ms: number) => new Promise<void>((resolve, reject) => {
+    const signal = currentRun?.controller.signal;
+    if (signal?.aborted) return reject(createCancelledError());
+    const onAbort = () => {
+        clearTimeout(timer);
+        reject(createCancelledError());
+    };
+    const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+}).then(waitWhilePaused);
+const animateCursor = (startX: number, startY: number, endX: number, endY: number, duration: number) => {
+    const signal = currentRun?.controller.signal;
+    return new Promise((resolve, reject) => {
+        const controlX = (startX + endX) / 2 + (endY - startY) * (Math.random() - 0.5) * 0.8;
+        const controlY = (startY + endY) / 2 + (startX - endX) * (Math.random() - 0.5) * 0.8;
+        let startTime: number | null = null;
+        const animationFrame = (timestamp: number) => {
+            if (signal?.aborted) return reject(createCancelledError());
+            if (!startTime) startTime = timestamp;
+            const progress = Math.min((timestamp - startTime) / duration, 1);
+            const easeProgress = 1 - Math.pow(1 - progress, 5);
+            const t = easeProgress;
+            const x = Math.pow(1 - t, 2) * startX + 2 * (1 - t) * t * controlX + Math.pow(t, 2) * endX;
+            const y = Math.pow(1 - t, 2) * startY + 2 * (1 - t) * t * controlY + Math.pow(t, 2) * endY;
+            cursor.style.left = `${x}px`;
+            cursor.style.top = `${y}px`;
+            if (progress < 1) {
+                requestAnimationFrame(animationFrame);
+            } else {
+                resolve(null);
+            }
+        };
+        requestAnimationFrame(animationFrame);
+    });
+};
+const animateLinear = (startX: number, startY: number, endX: number, endY: number, duration: number) => {
+    const signal = currentRun?.controller.signal;
+    return new Promise((resolve, reject) => {
+        let startTime: number | null = null;
+        const animationFrame = (timestamp: number) => {
+            if (signal?.aborted) return reject(createCancelledError());
+            if (!startTime) startTime = timestamp;
+            const progress = Math.min((timestamp - startTime) / duration, 1);
+            const x = startX + (endX - startX) * progress;
+            const y = startY + (endY - startY) * progress;
+            cursor.style.left = `${x}px`;
+            cursor.style.top = `${y}px`;
+            if (progress < 1) {
+                requestAnimationFrame(animationFrame);
+            } else {
+                resolve(null);
+            }
+        };
+        requestAnimationFrame(animationFrame);
+    });
+};
+const followCursorPath = async (path: [number, number][]) => {
+    if (!path || path.length === 0) return;
+    const startX = parseFloat(cursor.style.left || '0');
+    const startY = parseFloat(cursor.style.top || '0');
+    await animateCursor(startX, startY, path[0][0], path[0][1], 300);
+    for (let i = 0; i < path.length - 1; i++) {
+        const from = path[i];
+        const to = path[i + 1];
+        const distance = Math.hypot(to[0] - from[0], to[1] - from[1]);
+        const duration = Math.max(50, distance * 3.5);
+        await animateLinear(from[0], from[1], to[0], to[1], duration);
+    }
+};
+const openAppViaIcon = async (appId: string, iconSelector: string): Promise<HTMLElement | null> => {
+    let windowEl: HTMLElement | undefined | null = null;
+    if (['browser', 'doodle', 'studio', 'explorer'].includes(appId)) {
+        windowEl = openWindows.get(appId);
+        if (windowEl) {
+            setActiveWindow(windowEl);
+            return windowEl;
+        }
+    }
+    else if (appId === 'docs') {
+        const existingNewDoc = Array.from(openWindows.values()).find(w => w.dataset.app === 'docs' && !openFiles.has(w));
+        if (existingNewDoc) {
+            setActiveWindow(existingNewDoc);
+            return existingNewDoc;
+        }
+    }
+    const iconEl = document.querySelector(iconSelector);
+    if (iconEl) {
+        const startX = parseFloat(cursor.style.left || '0');
+        const startY = parseFloat(cursor.style.top || '0');
+        const rect = iconEl.getBoundingClientRect();
+        const desktopRect = desktop.getBoundingClientRect();
+        const targetX = rect.left - desktopRect.left + rect.width / 2;
+        const targetY = rect.top - desktopRect.top + rect.height / 2;
+        await animateCursor(startX, startY, targetX, targetY, 600);
+        const cursorRect = cursor.getBoundingClientRect();
+        const targetElement = document.elementFromPoint(cursorRect.left + 12, cursorRect.top + 12);
+        if (targetElement) {
+            const iconToClick = (targetElement as HTMLElement).closest('.icon');
+            if (iconToClick) {
+                (iconToClick as HTMLElement).click();
+                await sleep(300);
+            }
+        }
+        if (['browser', 'doodle', 'studio', 'explorer'].includes(appId)) {
+            return openWindows.get(appId) || null;
+        } else if (appId === 'docs') {
+            let newestDoc: HTMLElement | null = null;
+            let maxZ = -1;
+            openWindows.forEach(win => {
+                if (win.dataset.app === 'docs' && !openFiles.has(win)) {
+                    const z = parseInt(win.style.zIndex);
+                    if (z > maxZ) {
+                        maxZ = z;
+                        newestDoc = win;
+                    }
+                }
+            });
+            return newestDoc;
+        }
+    }
+    return null;
+};
+const dragWindow = async (selector: string, targetX: number, targetY: number) => {
+    const windowEl = document.querySelector(selector) as HTMLElement;
+    const headerEl = windowEl?.querySelector('.window-header') as HTMLElement;
+    if (!windowEl || !headerEl) {
+        throw new Error(`No window matches "${selector}".`);
+    }
+    if (windowEl.classList.contains('maximized')) {
+        throw new Error("The window is maximized, so it can't be moved.");
+    }
+    const startCursorX = parseFloat(cursor.style.left);
+    const startCursorY = parseFloat(cursor.style.top);
+    const headerRect = headerEl.getBoundingClientRect();
+    const desktopRect = desktop.getBoundingClientRect();
+    const headerCenterX = headerRect.left - desktopRect.left + headerRect.width / 2;
+    const headerCenterY = headerRect.top - desktopRect.top + headerRect.height / 2;
+    await animateCursor(startCursorX, startCursorY, headerCenterX, headerCenterY, 500);
+    const windowRect = windowEl.getBoundingClientRect();
+    const windowStartX = windowRect.left - desktopRect.left;
+    const windowStartY = windowRect.top - desktopRect.top;
+    const offsetX = headerCenterX - windowStartX;
+    const offsetY = headerCenterY - windowStartY;
+    let windowTargetX = targetX - offsetX;
+    let windowTargetY = targetY - offsetY;
+    windowTargetX = Math.max(0, Math.min(windowTargetX, desktopRect.width - windowRect.width));
+    windowTargetY = Math.max(0, Math.min(windowTargetY, desktopRect.height - windowRect.height));
+    const finalCursorX = windowTargetX + offsetX;
+    const finalCursorY = windowTargetY + offsetY;
+    const duration = 1000;
+    const signal = currentRun?.controller.signal;
+    let startTime: number | null = null;
+    const animationFrame = (timestamp: number) => {
+        if (signal?.aborted) return;
+        if (!startTime) startTime = timestamp;
+        const progress = Math.min((timestamp - startTime) / duration, 1);
+        const easeProgress = 1 - Math.pow(1 - progress, 4);
+        const currentCursorX = headerCenterX + (finalCursorX - headerCenterX) * easeProgress;
+        const currentCursorY = headerCenterY + (finalCursorY - headerCenterY) * easeProgress;
+        cursor.style.left = `${currentCursorX}px`;
+        cursor.style.top = `${currentCursorY}px`;
+        const currentWindowX = windowStartX + (windowTargetX - windowStartX) * easeProgress;
+        const currentWindowY = windowStartY + (windowTargetY - windowStartY) * easeProgress;
+        windowEl.style.left = `${currentWindowX}px`;
+        windowEl.style.top = `${currentWindowY}px`;
+        if (progress < 1) {
+            requestAnimationFrame(animationFrame);
+        }
+    };
+    return new Promise<void>((resolve, reject) => {
+        requestAnimationFrame(animationFrame);
+        setTimeout(() => signal?.aborted ? reject(createCancelledError()) : resolve(), duration);
+    });
+};
+const appIcons = { docs: '📝', doodle: '🎨', studio: '🖼️' };
+
+// What saving a window would write, or null if it has nothing savable.
+const getWindowSaveContent = (windowEl: HTMLElement): { type: 'documents' | 'images', content: string, vector?: DoodleDocument } | null => {
+    switch (windowEl.dataset.app) {
+        case 'docs':
+            return { type: 'documents', content: cleanDocumentHtml(windowEl.querySelector('.window-body')!.innerHTML) };
+        case 'doodle':
+            return {
+                type: 'images',
+                content: (windowEl.querySelector('canvas') as HTMLCanvasElement).toDataURL('image/png'),
+                vector: structuredClone(doodleState.get(windowEl)?.document),
+            };
+        case 'studio': {
+            const img = windowEl.querySelector('.image-container img') as HTMLImageElement | null;
+            return img ? { type: 'images', content: img.src } : null;
+        }
+    }
+    return null;
+};
+
+const defaultSaveNames: Record<string, string> = { docs: 'document.txt', doodle: 'doodle.png', studio: 'image.png' };
+
+/**
+ * Saves a window's content as its file, asking for a name if it has none yet.
+ * Resolves to false if there was nothing to save, the user backed out, or the write failed.
+ */
+const saveWindowFile = async (windowEl: HTMLElement): Promise<boolean> => {
+    const pending = getWindowSaveContent(windowEl);
+    const app = windowEl.dataset.app as 'docs' | 'doodle' | 'studio';
+    if (!pending) {
+        showToast('There is nothing to save.');
+        return false;
+    }
+    const name = openFiles.get(windowEl)?.name || prompt('Save as:', defaultSaveNames[app]);
+    if (!name) return false;
+    if (!await confirmUserSave(windowEl, name, pending.content)) return false;
+    if (!await saveFile(pending.type, name, pending.content, 'user', pending.vector)) return false;
+    recordMacroStep({ action: 'save_active_file', filename: name });
+    openFiles.set(windowEl, { type: app, name });
+    setWindowTitle(windowEl, `${appIcons[app]} ${name}`);
+    discardWindowChanges(windowEl);
+    return true;
+};
+
+// Short, stable description of an element for action results, e.g. "#window-docs-1 input.address-bar".
+const describeElement = (el: Element): string => {
+    if (el.id) return `#${el.id}`;
+    const classes = Array.from(el.classList).slice(0, 2).map(c => `.${c}`).join('');
+    const windowEl = el.closest('.app-window');
+    const scope = windowEl && windowEl !== el ? `#${windowEl.id} ` : '';
+    return `${scope}${el.tagName.toLowerCase()}${classes}`;
+};
+
+/** Runs a single validated action. Throws when it can't be carried out; resolves to a description of the element it acted on, if any. */
+const executeAction = async (action: Action): Promise<string | void> => {
+    switch (action.action) {
+        case 'speak':
+            addMessage('assistant', action.text);
+            break;
+        case 'move_mouse_to_element': {
+            const el = document.querySelector(action.selector);
+            if (!el) throw new Error(`No element matches "${action.selector}".`);
+            const startX = parseFloat(cursor.style.left || '0');
+            const startY = parseFloat(cursor.style.top || '0');
+            const rect = el.getBoundingClientRect();
+            const desktopRect = desktop.getBoundingClientRect();
+            const targetX = rect.left - desktopRect.left + rect.width / 2;
+            const targetY = rect.top - desktopRect.top + rect.height / 2;
+            await animateCursor(startX, startY, targetX, targetY, 600);
+            return describeElement(el);
+        }
+        case 'click': {
+            const cursorRect = cursor.getBoundingClientRect();
+            const targetElement = document.elementFromPoint(cursorRect.left + 12, cursorRect.top + 12) as HTMLElement | null;
+            if (!targetElement || targetElement === desktop) throw new Error('There is nothing under the cursor to click.');
+            // A synthetic click doesn't raise or focus anything, so do what a real click would.
+            const windowEl = targetElement.closest('.app-window') as HTMLElement | null;
+            if (windowEl && Array.from(openWindows.values()).includes(windowEl)) setActiveWindow(windowEl);
+            const editable = targetElement.closest('[contenteditable="true"]') as HTMLElement | null;
+            if (editable) {
+                editable.focus();
+                placeCaretAtPoint(editable, cursorRect.left + 12, cursorRect.top + 12);
+            } else if (targetElement.matches('input, textarea')) {
+                targetElement.focus();
+            }
+            targetElement.click();
+            await sleep(300);
+            return describeElement(targetElement);
+        }
+        case 'type': {
+            const target = getEditingTarget();
+            for (const char of action.text) {
+                insertText(target, char);
+                await sleep(isTextField(target) ? 25 : 20);
+            }
+            if (action.enter) {
+                pressKey(target, 'Enter');
+            }
+            if (!isTextField(target)) {
+                const caretNode = window.getSelection()?.focusNode;
+                const caretEl = caretNode instanceof Element ? caretNode : caretNode?.parentElement;
+                if (caretEl && caretEl !== target) caretEl.scrollIntoView({ block: 'nearest' });
+            }
+            return describeElement(target);
+        }
+        case 'press_key': {
+            const target = getEditingTarget();
+            pressKey(target, action.key);
+            await sleep(100);
+            return describeElement(target);
+        }
+        case 'key_combo': {
+            const target = getEditingTarget();
+            const { key, modifiers } = parseKeyCombo(action.keys);
+            pressKey(target, key, modifiers);
+            await sleep(100);
+            return describeElement(target);
+        }
+        case 'select_text': {
+            const target = getEditingTarget(action.selector);
+            selectTextIn(target, action);
+            return describeElement(target);
+        }
+        case 'clear_field': {
+            const target = getEditingTarget(action.selector);
+            clearField(target);
+            return describeElement(target);
+        }
+        case 'format_text': {
+            if (activeWindow?.dataset.app !== 'docs') throw new Error('Formatting needs an active Document Writer window.');
+            const body = activeWindow.querySelector('.window-body') as HTMLElement;
+            focusEditable(body);
+            if (action.text) selectTextIn(body, { text: action.text });
+            applyDocFormat(body, action.style, action.url);
+            return describeElement(body);
+        }
+        case 'edit_document': {
+            if (activeWindow?.dataset.app !== 'docs') throw new Error('Editing needs an active Document Writer window.');
+            const windowEl = activeWindow;
+            const body = windowEl.querySelector('.window-body') as HTMLElement;
+            const before = body.innerHTML;
+            const after = cleanDocumentHtml(applyDocumentEdits(before, action.edits, action.all));
+            const count = action.edits.length;
+            const title = `✏️ Apply ${count} edit${count === 1 ? '' : 's'} to "${getWindowTitle(windowEl)}"?`;
+            if (!await requestConfirmation(title, renderChangePreview('documents', before, after), 'Accept', 'Reject')) {
+                throwIfCancelled();
+                throw new Error('The user rejected the edit.');
+            }
+            // The document may have changed while the user was reviewing.
+            if (body.innerHTML !== before) throw new Error('The document changed during the review. Try the edit again.');
+            body.innerHTML = after;
+            notifyInput(body, 'insertReplacementText');
+            return describeElement(body);
+        }
+        case 'scroll': {
+            const scrollableEl = document.querySelector(action.selector);
+            if (!scrollableEl) throw new Error(`No element matches "${action.selector}".`);
+            scrollableEl.scrollBy({ top: action.pixels, behavior: 'smooth' });
+            await sleep(500);
+            return describeElement(scrollableEl);
+        }
+        case 'doodle':
+            await useDoodlePad(action.lines);
+            break;
+        case 'generate_image':
+            if (!await useImageStudio(action.prompt, getImageOptions(action))) throw new Error(`No image could be generated for "${action.prompt}".`);
+            break;
+        case 'find_image': {
+            const [imageUrl] = await getActiveProvider().generateImages(action.prompt, DEFAULT_IMAGE_OPTIONS);
+            if (!imageUrl) throw new Error(`No image could be generated for "${action.prompt}".`);
+            clipboard = { type: 'image', data: imageUrl };
+            break;
+        }
+        case 'place_image_in_doc': {
+            if (!clipboard || clipboard.type !== 'image') throw new Error("There's no image on the clipboard to place.");
+            let docWindow: HTMLElement | null = Array.from(openWindows.values()).find(w => w.dataset.app === 'docs' && !openFiles.has(w)) || null;
+            if (!docWindow) {
+                docWindow = await openAppViaIcon('docs', '#icon-docs');
+            }
+            if (!docWindow) throw new Error("I couldn't open a document to place the image.");
+            setActiveWindow(docWindow);
+            const docBody = docWindow.querySelector('.window-body')!;
+            const imageTag = renderImageTag(clipboard.data, 'AI Generated Image');
+            if (!imageTag) throw new Error("The image on the clipboard can't be placed in a document.");
+            docBody.insertAdjacentHTML('beforeend', imageTag);
+            markWindowDirty(docWindow);
+            docBody.scrollTop = docBody.scrollHeight;
+            return describeElement(docWindow);
+        }
+        case 'draw_with_cursor':
+            for (const line of action.lines) {
+                await followCursorPath(line.points);
+            }
+            break;
+        case 'open_tab': {
+            const browser = await openAppViaIcon('browser', '#icon-browser');
+            if (!browser) throw new Error("I couldn't open the Web Browser.");
+            await openBrowserTab(browser, action.query);
+            return describeElement(browser);
+        }
+        case 'switch_tab': {
+            const browser = getBrowserWindow();
+            switchBrowserTab(browser, action.index);
+            setActiveWindow(browser);
+            return describeElement(browser);
+        }
+        case 'go_back': {
+            const browser = getBrowserWindow();
+            if (!goBackInBrowser(browser)) throw new Error('The active tab has no earlier page to go back to.');
+            setActiveWindow(browser);
+            return describeElement(browser);
+        }
+        case 'bookmark_page': {
+            const browser = getBrowserWindow();
+            const tab = getActiveBrowserTab(browser);
+            if (!tab || tab.status) throw new Error('The active tab has no page to bookmark yet.');
+            const bookmarked = toggleBookmark(getBrowserEntry(tab));
+            renderBrowser(browser);
+            return `${describeElement(browser)} (${bookmarked ? 'bookmarked' : 'bookmark removed'})`;
+        }
+        case 'clip_to_document': {
+            const docWindow = await clipToDocument(getBrowserWindow(), true);
+            return describeElement(docWindow);
+        }
+        case 'list_files': {
+            const explorer = await openAppViaIcon('explorer', '#icon-explorer');
+            if (!explorer) throw new Error("I couldn't open the File Explorer.");
+            return describeElement(explorer);
+        }
+        case 'open_file': {
+            const files = await getFiles();
+            const docData = files.documents[action.filename];
+            const imgData = files.images[action.filename];
+            if (docData) {
+                openDocumentWriter({ name: action.filename, content: docData.content });
+            } else if (imgData) {
+                openImageViewer(action.filename, imgData.content, imgData.vector);
+            } else {
+                throw new Error(`File not found: "${action.filename}"`);
+            }
+            return activeWindow ? describeElement(activeWindow) : undefined;
+        }
+        case 'save_active_file': {
+            if (!activeWindow) throw new Error('There is no active window to save.');
+            const pending = getWindowSaveContent(activeWindow);
+            if (!pending) {
+                throw new Error(`The active window (${activeWindow.querySelector('.window-title')?.textContent}) has nothing to save.`);
+            }
+            if (!await saveFile(pending.type, action.filename, pending.content, 'assistant', pending.vector)) {
+                throw new Error(`Could not save "${action.filename}". Storage might be full.`);
+            }
+            const app = activeWindow.dataset.app as 'docs' | 'doodle' | 'studio';
+            openFiles.set(activeWindow, { type: app, name: action.filename });
+            setWindowTitle(activeWindow, `${appIcons[app]} ${action.filename}`);
+            discardWindowChanges(activeWindow);
+            return describeElement(activeWindow);
+        }
+        case 'export_file': {
+            const file = getDatabase().files.documents[action.filename];
+            if (!file) throw new Error(`There is no saved document named "${action.filename}". Save it first.`);
+            const exported = exportDocument(action.filename, file.content, action.format);
+            if (action.format === 'pdf') {
+                return `Opened the print dialog for the user to save "${exported}" as a PDF. No file has been downloaded yet.`;
+            }
+            return `Downloaded ${exported}`;
+        }
+        case 'drag_window':
+            await dragWindow(action.selector, action.x, action.y);
+            return action.selector;
+        case 'resize_window': {
+            const windowEl = getWindowBySelector(action.selector);
+            const rect = windowEl.getBoundingClientRect();
+            const desktopRect = desktop.getBoundingClientRect();
+            setWindowRect(windowEl, rect.left - desktopRect.left, rect.top - desktopRect.top, action.width, action.height);
+            setActiveWindow(windowEl);
+            return describeElement(windowEl);
+        }
+        case 'minimize_window': {
+            const windowEl = getWindowBySelector(action.selector);
+            minimizeWindow(windowEl);
+            return describeElement(windowEl);
+        }
+        case 'maximize_window': {
+            const windowEl = getWindowBySelector(action.selector);
+            setActiveWindow(windowEl);
+            if (!windowEl.classList.contains('maximized')) toggleMaximize(windowEl);
+            return describeElement(windowEl);
+        }
+        case 'restore_window': {
+            const windowEl = getWindowBySelector(action.selector);
+            setActiveWindow(windowEl);
+            if (windowEl.classList.contains('maximized')) toggleMaximize(windowEl);
+            return describeElement(windowEl);
+        }
+        case 'focus_window': {
+            const windowEl = getWindowBySelector(action.selector);
+            setActiveWindow(windowEl);
+            return describeElement(windowEl);
+        }
+        case 'close_window': {
+            const windowEl = getWindowBySelector(action.selector);
+            if (!await confirmUnsavedChanges([windowEl], 'closing')) throw new Error('The user chose to keep the window open.');
+            const target = describeElement(windowEl);
+            closeWindow(windowEl);
+            return target;
+        }
+        case 'tile_windows': {
+            const layouts: TileLayout[] = ['side-by-side', 'grid', 'cascade'];
+            if (!layouts.includes(action.layout as TileLayout)) {
+                throw new Error(`Unknown layout "${action.layout}". Use one of: ${layouts.join(', ')}.`);
+            }
+            tileWindows(action.layout as TileLayout);
+            break;
+        }
+        case 'run_macro': {
+            const macro = getMacros()[action.name];
+            if (!macro) throw new Error(`There is no macro named "${action.name}".`);
+            const report = await executeActionSequence(macro.sequence);
+            if (report.cancelled) throw createCancelledError();
+            if (!report.completed) throw new Error(`Macro "${action.name}" didn't finish:\n${formatSequenceReport(report)}`);
+            break;
+        }
+        case 'delete_file': {
+            const files = await getFiles();
+            if (files.documents[action.filename]) {
+                await deleteFile('documents', action.filename);
+            } else if (files.images[action.filename]) {
+                await deleteFile('images', action.filename);
+            } else {
+                throw new Error(`File not found: "${action.filename}"`);
+            }
+            const explorer = openWindows.get('explorer');
+            if (explorer) {
+                await renderExplorer(explorer);
+            }
+            break;
+        }
+    }
+};
+
+interface ActionResult {
+    /** Position of the action in the sequence the model returned. */
+    index: number;
+    action: ActionName;
+    status: 'succeeded' | 'failed' | 'cancelled' | 'skipped';
+    durationMs: number;
+    target?: string;
+    error?: string;
+}
+interface SequenceReport {
+    /** True when the whole sequence was valid and every action ran without failing. */
+    completed: boolean;
+    /** True when the user stopped the run partway through. */
+    cancelled: boolean;
+    results: ActionResult[];
+    /** Validation errors that caused the whole sequence to be rejected. */
+    errors: string[];
+    repairs: string[];
+}
+
+/** Renders a report as plain text for the model. */
+const formatSequenceReport = (report: SequenceReport): string => {
+    if (report.errors.length > 0) {
+        return [...report.errors.map(error => `Invalid: ${error}`), 'The sequence was rejected and nothing was run.'].join('\n');
+    }
+    const lines = report.repairs.map(repair => `Repaired: ${repair}`);
+    for (const result of report.results) {
+        const target = result.target ? ` on ${result.target}` : '';
+        const detail = result.status === 'failed' ? ` (${result.error})` : result.status === 'succeeded' ? ` in ${result.durationMs}ms` : '';
+        lines.push(`${result.index + 1}. ${result.action}${target}: ${result.status}${detail}`);
+    }
+    return lines.join('\n') || 'No actions were run.';
+};
+
+const resultIcons: Record<ActionResult['status'], string> = { succeeded: '✅', failed: '❌', cancelled: '⏹️', skipped: '⏭️' };
+
+// Adds a collapsible "what happened" card to the chat. Sequences that only talk are left out.
+const addSequenceSummary = (report: SequenceReport) => {
+    if (report.errors.length > 0 || report.results.every(result => result.action === 'speak')) return;
+    const counts = { succeeded: 0, failed: 0, cancelled: 0, skipped: 0 };
+    report.results.forEach(result => counts[result.status]++);
+    const messageEl = document.createElement('div');
+    messageEl.className = 'chat-message assistant action-summary';
+    const details = document.createElement('details');
+    if (counts.failed > 0) details.open = true;
+    const summary = document.createElement('summary');
+    summary.textContent = (['succeeded', 'failed', 'cancelled', 'skipped'] as const)
+        .filter(status => counts[status] > 0)
+        .map(status => `${resultIcons[status]} ${counts[status]} ${status}`)
+        .join(' · ');
+    const list = document.createElement('ol');
+    for (const result of report.results) {
+        const item = document.createElement('li');
+        item.className = `action-result ${result.status}`;
+        const target = result.target ? ` → ${result.target}` : '';
+        const timing = result.status === 'skipped' ? '' : ` (${result.durationMs}ms)`;
+        item.textContent = `${resultIcons[result.status]} ${result.action}${target}${timing}`;
+        if (result.error) {
+            const errorEl = document.createElement('div');
+            errorEl.className = 'action-result-error';
+            errorEl.textContent = result.error;
+            item.appendChild(errorEl);
+        }
+        list.appendChild(item);
+    }
+    details.append(summary, list);
+    messageEl.appendChild(details);
+    chatHistory.appendChild(messageEl);
+    chatHistory.scrollTop = chatHistory.scrollHeight;
+};
+
+/**
+ * Validates the sequence, then runs each action in turn. Stops at the first
+ * failure and marks the remaining actions as skipped.
+ */
+const executeActionSequence = async (sequence: unknown): Promise<SequenceReport> => {
+    // Repairs reach the model through the report (see formatSequenceReport).
+    const { steps, errors, repairs } = validateActionSequence(sequence);
+    if (errors.length > 0) {
+        // Partially running a plan can leave the desktop in a confusing state, so nothing runs.
+        addMessage('assistant', `I didn't run my plan because some steps were invalid:\n${errors.join('\n')}`);
+        return { completed: false, cancelled: false, results: [], errors, repairs };
+    }
+    const report: SequenceReport = { completed: true, cancelled: false, results: [], errors, repairs };
+    for (const { index, action } of steps) {
+        if (!report.completed) {
+            report.results.push({ index, action: action.action, status: 'skipped', durationMs: 0 });
+            continue;
+        }
+        let startedAt = performance.now();
+        try {
+            await sleep(200);
+            await waitForActionTurn(action.action);
+            await enforcePermission(action);
+            startedAt = performance.now();
+            const target = await executeAction(action);
+            report.results.push({ index, action: action.action, status: 'succeeded', durationMs: Math.round(performance.now() - startedAt), target: target || undefined });
+        } catch (error) {
+            const cancelled = isCancelledError(error);
+            if (!cancelled) console.error(`Error running action "${action.action}":`, error);
+            report.results.push({
+                index,
+                action: action.action,
+                status: cancelled ? 'cancelled' : 'failed',
+                durationMs: Math.round(performance.now() - startedAt),
+                error: (error as Error).message,
+            });
+            report.completed = false;
+            report.cancelled = cancelled;
+        }
+        if (currentRun && !currentRun.stepMode) updateRunControls();
+    }
+    addSequenceSummary(report);
+    return report;
+};
+
+const openDocumentWriter = (file: { name: string, content: string } | null = null): HTMLElement => {
+    if (file) {
+        for (const [win, fileInfo] of openFiles.entries()) {
+            if (fileInfo.type === 'docs' && fileInfo.name === file.name) {
+                setActiveWindow(win);
+                return win;
+            }
+        }
+    }
+    const windowTitle = file ? `📝 ${file.name}` : '📝 New Document';
+    const windowEl = createAppWindow(windowTitle, cleanDocumentHtml(file?.content || ''), 'docs');
+    const key = `docs-${Date.now()}`;
+    openWindows.set(key, windowEl);
+    const body = windowEl.querySelector('.window-body') as HTMLElement;
+    body.setAttribute('contenteditable', 'true');
+    body.setAttribute('spellcheck', 'false');
+    const toolbar = createDocToolbar(windowEl, body);
+    const findBar = createFindBar(body);
+    const fileControls = document.createElement('div');
+    fileControls.className = 'doc-file-controls';
+    fileControls.innerHTML = `
+        <button class="doc-find-btn" title="Find and replace (Ctrl+F)">🔍</button>
+        <button class="doc-import-btn" title="Import .md, .txt or .html files">📂 Import</button>
+        <select class="doc-export-select" title="Export this document">${renderExportOptions()}</select>
+    `;
+    toolbar.appendChild(fileControls);
+    fileControls.querySelector('.doc-find-btn')!.addEventListener('click', () => findBar.open(false));
+    fileControls.querySelector('.doc-import-btn')!.addEventListener('click', importDocuments);
+    const exportSelect = fileControls.querySelector('.doc-export-select') as HTMLSelectElement;
+    exportSelect.addEventListener('change', () => {
+        const format = exportSelect.value;
+        exportSelect.value = '';
+        if (!format) return;
+        const exported = exportDocument(openFiles.get(windowEl)?.name || 'document', body.innerHTML, format);
+        showToast(format === 'pdf' ? 'Choose "Save as PDF" in the print dialog.' : `Exported ${exported}`);
+    });
+    if (file) {
+        openFiles.set(windowEl, { type: 'docs', name: file.name });
+    }
+    body.addEventListener('input', () => markWindowDirty(windowEl));
+    const controls = windowEl.querySelector('.window-controls')!;
+    const saveBtn = document.createElement('button');
+    saveBtn.className = 'save-btn';
+    saveBtn.innerHTML = '💾';
+    saveBtn.title = 'Save File';
+    controls.prepend(saveBtn);
+    saveBtn.addEventListener('click', () => saveWindowFile(windowEl));
+    return windowEl;
+};
+const openBrowser = (): HTMLElement => {
+    if(openWindows.has('browser')) {
+        const win = openWindows.get('browser')!;
+        setActiveWindow(win);
+        return win;
+    }
+    const windowEl = createAppWindow('🌐 Web Browser', '', 'browser', true);
+    openWindows.set('browser', windowEl);
+    const body = windowEl.querySelector('.window-body')!;
+    body.innerHTML = `
+        <div class="browser-tabs">
+            <div class="browser-tab-list"></div>
+            <button class="new-tab-btn" title="New tab">+</button>
+        </div>
+        <div class="browser-header">
+            <div class="browser-controls">
+                <button class="browser-back-btn" title="Back">&larr;</button>
+                <button class="browser-forward-btn" title="Forward">&rarr;</button>
+                <button class="browser-reload-btn" title="Reload">&#x27F3;</button>
+            </div>
+            <div class="address-bar-container">
+                <input type="text" class="address-bar" placeholder="Search Google or type a URL">
+                <button class="search-button">Go</button>
+            </div>
+            <button class="bookmark-btn" title="Bookmark this page">☆</button>
+        </div>
+        <div class="browser-content"></div>
+    `;
+    const addressBar = body.querySelector('.address-bar') as HTMLInputElement;
+    const tab = createBrowserTab();
+    browserState.set(windowEl, { tabs: [tab], activeTabId: tab.id });
+    const performSearch = () => {
+        const query = addressBar.value.trim();
+        const activeTab = getActiveBrowserTab(windowEl);
+        if (!query || !activeTab) return;
+        searchInTab(windowEl, activeTab, query).catch(() => {});
+    };
+    addressBar.addEventListener('keydown', (e) => {
+        if (e.key === 'Enter') {
+            performSearch();
+        }
+    });
+    body.querySelector('.search-button')!.addEventListener('click', performSearch);
+    body.querySelector('.new-tab-btn')!.addEventListener('click', () => {
+        recordMacroStep({ action: 'open_tab' });
+        openBrowserTab(windowEl);
+        addressBar.focus();
+    });
+    body.querySelector('.browser-tab-list')!.addEventListener('click', (e) => {
+        const target = e.target as HTMLElement;
+        const index = parseInt(target.closest<HTMLElement>('[data-index]')?.dataset.index || '', 10);
+        if (!index) return;
+        if (target.closest('.browser-tab-close')) {
+            closeBrowserTab(windowEl, index);
+        } else {
+            recordMacroStep({ action: 'switch_tab', index });
+            switchBrowserTab(windowEl, index);
+        }
+    });
+    body.querySelector('.browser-back-btn')!.addEventListener('click', () => {
+        recordMacroStep({ action: 'go_back' });
+        goBackInBrowser(windowEl);
+    });
+    body.querySelector('.browser-forward-btn')!.addEventListener('click', () => goForwardInBrowser(windowEl));
+    body.querySelector('.bookmark-btn')!.addEventListener('click', () => {
+        const activeTab = getActiveBrowserTab(windowEl);
+        if (!activeTab) return;
+        recordMacroStep({ action: 'bookmark_page' });
+        showToast(toggleBookmark(getBrowserEntry(activeTab)) ? 'Bookmarked.' : 'Bookmark removed.');
+        renderBrowser(windowEl);
+    });
+    body.querySelector('.browser-reload-btn')!.addEventListener('click', () => {
+        const activeTab = getActiveBrowserTab(windowEl);
+        if (activeTab) reloadBrowserTab(windowEl, activeTab).catch(() => {});
+    });
+    renderBrowser(windowEl);
+    return windowEl;
+};
+
+// --- Browser Tabs & History ---
+// Each tab keeps its own history stack of visited entries: the home page, a
+// results page or a source's page view. Back/forward move `position` through
+// the stack; visiting a new entry drops everything after the current one.
+let browserTabIdCounter = 0;
+
+const createBrowserTab = (): BrowserTab => ({
+    id: ++browserTabIdCounter,
+    history: [{ query: '', sources: [], summary: '' }],
+    position: 0,
+});
+
+const getBrowserWindow = (): HTMLElement => {
+    const windowEl = openWindows.get('browser');
+    if (!windowEl) throw new Error('The Web Browser is not open.');
+    return windowEl;
+};
+
+const getBrowserEntry = (tab: BrowserTab): BrowserEntry => tab.history[tab.position];
+
+const getActiveBrowserTab = (windowEl: HTMLElement): BrowserTab | undefined => {
+    const state = browserState.get(windowEl);
+    return state?.tabs.find(tab => tab.id === state.activeTabId);
+};
+
+const getBrowserEntryTitle = (entry: BrowserEntry): string => {
+    if (entry.sourceIndex !== undefined) return entry.sources[entry.sourceIndex]?.web?.title || 'Untitled';
+    return entry.query || 'New Tab';
+};
+
+const getBrowserTabTitle = (tab: BrowserTab): string => {
+    if (tab.status === 'loading') return tab.pendingQuery || 'Loading…';
+    return getBrowserEntryTitle(getBrowserEntry(tab));
+};
+
+// Tabs are numbered from 1 in the UI, in the desktop state and in the tab actions.
+const getBrowserTabByNumber = (windowEl: HTMLElement, index: number): BrowserTab => {
+    const tabs = browserState.get(windowEl)?.tabs || [];
+    const tab = tabs[index - 1];
+    if (!tab) throw new Error(`There is no tab ${index}; the browser has ${tabs.length} tab${tabs.length === 1 ? '' : 's'}.`);
+    return tab;
+};
+
+const renderBrowser = (windowEl: HTMLElement) => {
+    const state = browserState.get(windowEl);
+    const tab = getActiveBrowserTab(windowEl);
+    if (!state || !tab) return;
+    windowEl.querySelector('.browser-tab-list')!.innerHTML = state.tabs.map((t, i) => `
+        <span class="browser-tab-item${t === tab ? ' active' : ''}">
+            <button class="browser-tab" data-index="${i + 1}" title="${escapeHtml(getBrowserTabTitle(t))}">${escapeHtml(truncate(getBrowserTabTitle(t), 24))}</button>
+            <button class="browser-tab-close" data-index="${i + 1}" title="Close tab">&times;</button>
+        </span>
+    `).join('');
+    (windowEl.querySelector('.browser-back-btn') as HTMLButtonElement).disabled = tab.position === 0 && !tab.status;
+    (windowEl.querySelector('.browser-forward-btn') as HTMLButtonElement).disabled = tab.position >= tab.history.length - 1;
+    (windowEl.querySelector('.browser-reload-btn') as HTMLButtonElement).disabled = !getBrowserEntry(tab).query;
+    const entry = getBrowserEntry(tab);
+    const bookmarkBtn = windowEl.querySelector('.bookmark-btn') as HTMLButtonElement;
+    const bookmarked = isBookmarked(entry);
+    bookmarkBtn.disabled = !!tab.status || !getBookmarkKey(entry);
+    bookmarkBtn.textContent = bookmarked ? '★' : '☆';
+    bookmarkBtn.title = bookmarked ? 'Remove bookmark' : 'Bookmark this page';
+    const addressBar = windowEl.querySelector('.address-bar') as HTMLInputElement;
+    addressBar.value = tab.status === 'loading' ? tab.pendingQuery || '' : entry.query;
+    const browserContent = windowEl.querySelector('.browser-content')!;
+    if (tab.status === 'loading') {
+        browserContent.innerHTML = `<div class="placeholder"><div class="spinner"></div>Searching for "${escapeHtml(tab.pendingQuery)}"...</div>`;
+    } else if (tab.status === 'error') {
+        browserContent.innerHTML = `<div class="placeholder error">Sorry, something went wrong with the search.</div>`;
+    } else if (entry.sourceIndex !== undefined) {
+        renderPageView(windowEl, entry);
+    } else if (entry.query) {
+        renderSearchResults(windowEl, entry);
+    } else {
+        renderBrowserHomepage(windowEl);
+    }
+};
+
+const visitBrowserEntry = (windowEl: HTMLElement, tab: BrowserTab, entry: BrowserEntry) => {
+    tab.history = [...tab.history.slice(0, tab.position + 1), entry];
+    tab.position = tab.history.length - 1;
+    delete tab.status;
+    renderBrowser(windowEl);
+};
+
+/**
+ * Runs a search in `tab` and adds the results to its history, or replaces the
+ * current entry when `replace` is set (as a reload does). Rejects if the search fails.
+ */
+const searchInTab = async (windowEl: HTMLElement, tab: BrowserTab, query: string, replace = false) => {
+    tab.status = 'loading';
+    tab.pendingQuery = query;
+    renderBrowser(windowEl);
+    let result: SearchResult;
+    try {
+        result = await getActiveProvider().groundedSearch(query);
+    } catch (error) {
+        console.error('Browser Search Error:', error);
+        if (tab.status === 'loading' && tab.pendingQuery === query) {
+            tab.status = 'error';
+            delete tab.pendingQuery;
+            renderBrowser(windowEl);
+        }
+        throw error;
+    }
+    // Going back or starting another search in the tab abandons this one.
+    if (tab.status !== 'loading' || tab.pendingQuery !== query) return;
+    delete tab.pendingQuery;
+    if (!replace) addToSearchHistory(query);
+    const entry: BrowserEntry = { query, sources: result.sources, summary: result.summary, citations: result.citations };
+    if (replace) {
+        const current = getBrowserEntry(tab);
+        if (current.sourceIndex !== undefined && result.sources[current.sourceIndex]) entry.sourceIndex = current.sourceIndex;
+        tab.history[tab.position] = entry;
+        delete tab.status;
+        renderBrowser(windowEl);
+    } else {
+        visitBrowserEntry(windowEl, tab, entry);
+    }
+};
+
+const reloadBrowserTab = (windowEl: HTMLElement, tab: BrowserTab) => {
+    const { query } = getBrowserEntry(tab);
+    return query ? searchInTab(windowEl, tab, query, true) : Promise.resolve();
+};
+
+/** Moves the active tab back one entry. Returns false if there is nothing to go back to. */
+const goBackInBrowser = (windowEl: HTMLElement): boolean => {
+    const tab = getActiveBrowserTab(windowEl);
+    if (!tab) return false;
+    // Leaving a failed or pending search returns to the entry it was started from.
+    if (tab.status) {
+        delete tab.status;
+        delete tab.pendingQuery;
+    } else if (tab.position > 0) {
+        tab.position--;
+    } else {
+        return false;
+    }
+    renderBrowser(windowEl);
+    return true;
+};
+
+const goForwardInBrowser = (windowEl: HTMLElement): boolean => {
+    const tab = getActiveBrowserTab(windowEl);
+    if (!tab || tab.position >= tab.history.length - 1) return false;
+    tab.position++;
+    delete tab.status;
+    renderBrowser(windowEl);
+    return true;
+};
+
+const openBrowserTab = (windowEl: HTMLElement, query?: string): Promise<void> => {
+    const state = browserState.get(windowEl)!;
+    const tab = createBrowserTab();
+    state.tabs.push(tab);
+    state.activeTabId = tab.id;
+    renderBrowser(windowEl);
+    return query ? searchInTab(windowEl, tab, query) : Promise.resolve();
+};
+
+const switchBrowserTab = (windowEl: HTMLElement, index: number) => {
+    browserState.get(windowEl)!.activeTabId = getBrowserTabByNumber(windowEl, index).id;
+    renderBrowser(windowEl);
+};
+
+// Closing the last tab leaves a fresh one, so the window always has a tab to show.
+const closeBrowserTab = (windowEl: HTMLElement, index: number) => {
+    const state = browserState.get(windowEl)!;
+    const tab = getBrowserTabByNumber(windowEl, index);
+    state.tabs.splice(index - 1, 1);
+    if (state.tabs.length === 0) state.tabs.push(createBrowserTab());
+    if (state.activeTabId === tab.id) state.activeTabId = state.tabs[Math.min(index - 1, state.tabs.length - 1)].id;
+    renderBrowser(windowEl);
+};
+
+// Sessions saved before tabs existed stored a single query with its results.
+const restoreBrowserState = (windowEl: HTMLElement, saved: SavedBrowserState) => {
+    const savedTabs: BrowserTab[] = Array.isArray(saved.tabs)
+        ? saved.tabs
+        : [{ id: 0, history: [{ query: saved.query || '', sources: saved.sources || [], summary: saved.summary || '' }], position: 0 }];
+    const activeIndex = Math.max(0, savedTabs.findIndex(tab => tab.id === saved.activeTabId));
+    const tabs = savedTabs.map(tab => ({
+        id: ++browserTabIdCounter,
+        history: tab.history,
+        position: Math.min(Math.max(tab.position, 0), tab.history.length - 1),
+    }));
+    browserState.set(windowEl, { tabs, activeTabId: tabs[activeIndex].id });
+    renderBrowser(windowEl);
+};
+
+// --- Search Results & Citations ---
+// Grounded searches return one summary plus the parts of it each source supports.
+// Results and page views show a source's own sentences rather than the whole summary.
+interface CitedSpan { start: number, end: number, sources: number[] }
+
+/**
+ * Finds each cited segment in the summary, in order. Segments are matched by text,
+ * since providers report offsets in bytes rather than characters.
+ */
+const locateCitations = (summary: string, citations: SearchCitation[] = []): CitedSpan[] => {
+    const spans: CitedSpan[] = [];
+    let cursor = 0;
+    for (const citation of citations) {
+        const text = citation.text.trim();
+        if (!text || citation.sources.length === 0) continue;
+        let start = summary.indexOf(text, cursor);
+        if (start === -1) start = summary.indexOf(text);
+        if (start === -1) continue;
+        const end = start + text.length;
+        // Overlapping segments can't both be marked up, so the earlier one takes the later one's sources.
+        const overlapping = spans.find(span => start < span.end && end > span.start);
+        if (overlapping) {
+            overlapping.sources = [...new Set([...overlapping.sources, ...citation.sources])];
+            continue;
+        }
+        spans.push({ start, end, sources: [...new Set(citation.sources)] });
+        cursor = end;
+    }
+    return spans.sort((a, b) => a.start - b.start);
+};
+
+/** The parts of the summary attributed to a source, or null if the provider returned no citations at all. */
+const getSourceExcerpts = (entry: BrowserEntry, sourceIndex: number): string[] | null => {
+    // Entries from before this check may hold an empty list instead.
+    if (!entry.citations?.length) return null;
+    return locateCitations(entry.summary, entry.citations)
+        .filter(span => span.sources.includes(sourceIndex))
+        .map(span => entry.summary.slice(span.start, span.end));
+};
+
+const textToHtmlLines = (text: string) => escapeHtml(text).replace(/\n/g, '<br>');
+
+// The summary with numbered markers after each cited segment; clicking a marker opens its source.
+const renderCitedSummary = (entry: BrowserEntry): string => {
+    const { summary, sources } = entry;
+    let html = '';
+    let position = 0;
+    for (const span of locateCitations(summary, entry.citations)) {
+        const markers = span.sources.filter(index => sources[index]).map(index =>
+            `<sup class="citation" data-source="${index}" title="${escapeHtml(sources[index].web?.title || 'Untitled')}">${index + 1}</sup>`
+        ).join('');
+        html += `${textToHtmlLines(summary.slice(position, span.start))}<span class="cited-text">${textToHtmlLines(summary.slice(span.start, span.end))}</span>${markers}`;
+        position = span.end;
+    }
+    return html + textToHtmlLines(summary.slice(position));
+};
+
+const renderSourceSnippet = (entry: BrowserEntry, sourceIndex: number): string => {
+    const excerpts = getSourceExcerpts(entry, sourceIndex);
+    if (!excerpts) return 'A summary of this content is available.';
+    if (excerpts.length === 0) return 'No part of the summary cites this source.';
+    return escapeHtml(truncate(excerpts.join(' … '), 220));
+};
+
+const openSourcePage = (windowEl: HTMLElement, entry: BrowserEntry, sourceIndex: number) => {
+    const tab = getActiveBrowserTab(windowEl);
+    if (tab && entry.sources[sourceIndex]) visitBrowserEntry(windowEl, tab, { ...entry, sourceIndex });
+};
+
+const renderSearchResults = (windowEl: HTMLElement, entry: BrowserEntry) => {
+    const { query, sources } = entry;
+    const browserContent = windowEl.querySelector('.browser-content')!;
+    const resultsHtml = sources.map((source, index) => `
+        <div class="google-result" data-index="${index}">
+            <div class="google-result-url">${escapeHtml(source.web?.uri || 'Unknown Source')}</div>
+            <h3 class="google-result-title">${escapeHtml(source.web?.title || 'Untitled')}</h3>
+            <p class="google-result-snippet">${renderSourceSnippet(entry, index)}</p>
+        </div>
+    `).join('');
+    browserContent.innerHTML = `
+        <div class="google-serp-container">
+            <div class="google-header">
+                <span class="google-logo">AI Search</span>
+                <div class="google-search-bar-container">
+                     <span class="google-search-icon">🔍</span>
+                    <input type="text" class="google-search-bar" value="${escapeHtml(query)}" readonly>
+                </div>
+            </div>
+            <div class="google-search-results">
+                ${entry.summary ? `
+                    <div class="search-overview">
+                        <h3>AI Overview</h3>
+                        <p>${renderCitedSummary(entry)}</p>
+                    </div>
+                ` : ''}
+                ${resultsHtml || '<p>No results found.</p>'}
+            </div>
+        </div>
+    `;
+    browserContent.querySelectorAll('.google-result').forEach(resultEl => {
+        resultEl.addEventListener('click', () => {
+            openSourcePage(windowEl, entry, parseInt((resultEl as HTMLElement).dataset.index!, 10));
+        });
+    });
+    browserContent.querySelectorAll<HTMLElement>('.citation').forEach(marker => {
+        marker.addEventListener('click', () => openSourcePage(windowEl, entry, parseInt(marker.dataset.source!, 10)));
+    });
+};
+const renderPageView = (windowEl: HTMLElement, entry: BrowserEntry) => {
+    const source = entry.sources[entry.sourceIndex!];
+    if (!source) return;
+    const excerpts = getSourceExcerpts(entry, entry.sourceIndex!);
+    let contentHtml = `<h3>Summary</h3><p>${textToHtmlLines(entry.summary)}</p>`;
+    if (excerpts?.length === 0) {
+        contentHtml = `<h3>What this source says</h3><p class="no-citations">No part of the search summary cites this source.</p>`;
+    } else if (excerpts) {
+        contentHtml = `<h3>What this source says</h3><ul class="source-excerpts">${excerpts.map(excerpt => `<li>${textToHtmlLines(excerpt)}</li>`).join('')}</ul>`;
+    }
+    const browserContent = windowEl.querySelector('.browser-content')!;
+    browserContent.innerHTML = `
+        <div class="browser-page-view">
+            <div class="page-actions">
+                <button class="back-button">&larr; Back to Results</button>
+                <button class="clip-btn" title="Add what this source says, with a link, to a document">📋 Clip to document</button>
+            </div>
+            <header class="page-header">
+                <h2>${escapeHtml(source.web?.title || 'Untitled')}</h2>
+                ${renderLink(source.web?.uri, source.web?.uri || 'Unknown Source')}
+            </header>
+            <div class="page-content">
+                ${contentHtml}
+            </div>
+        </div>
+    `;
+    browserContent.querySelector('.back-button')?.addEventListener('click', () => {
+        recordMacroStep({ action: 'go_back' });
+        goBackInBrowser(windowEl);
+    });
+    browserContent.querySelector('.clip-btn')?.addEventListener('click', async () => {
+        recordMacroStep({ action: 'clip_to_document' });
+        try {
+            const docWindow = await clipToDocument(windowEl);
+            showToast(`Clipped to "${getWindowTitle(docWindow)}".`);
+        } catch (error) {
+            showToast((error as Error).message);
+        }
+    });
+};
+// --- Bookmarks & Search History ---
+// Both are kept per user in the database, so they outlive the browser window.
+interface SearchHistoryItem { query: string, searched: number }
+interface Bookmark { key: string, title: string, uri: string, entry: BrowserEntry, added: number }
+const MAX_SEARCH_HISTORY = 50;
+
+const getSearchHistory = (): SearchHistoryItem[] => getDatabase().searchHistory || [];
+
+// Searching again moves the query to the top instead of repeating it.
+const addToSearchHistory = (query: string) => {
+    const db = getDatabase();
+    const history = (db.searchHistory || []).filter((item: SearchHistoryItem) => item.query.toLowerCase() !== query.toLowerCase());
+    db.searchHistory = [{ query, searched: Date.now() }, ...history].slice(0, MAX_SEARCH_HISTORY);
+    saveDatabase(db);
+};
+
+const clearSearchHistory = () => {
+    const db = getDatabase();
+    db.searchHistory = [];
+    saveDatabase(db);
+};
+
+const getBookmarks = (): Bookmark[] => getDatabase().bookmarks || [];
+
+// A page view is identified by its source's URL, a results page by its query.
+const getBookmarkKey = (entry: BrowserEntry): string | null => {
+    if (entry.sourceIndex !== undefined) return entry.sources[entry.sourceIndex]?.web?.uri || null;
+    return entry.query ? `search:${entry.query.toLowerCase()}` : null;
+};
+
+const isBookmarked = (entry: BrowserEntry) => {
+    const key = getBookmarkKey(entry);
+    return !!key && getBookmarks().some(bookmark => bookmark.key === key);
+};
+
+/** Bookmarks the entry, or removes its bookmark if it already has one. Returns whether it is now bookmarked. */
+const toggleBookmark = (entry: BrowserEntry): boolean => {
+    const key = getBookmarkKey(entry);
+    if (!key) throw new Error('The home page can\'t be bookmarked. Search for something first.');
+    const db = getDatabase();
+    const bookmarks: Bookmark[] = db.bookmarks || [];
+    if (bookmarks.some(bookmark => bookmark.key === key)) {
+        db.bookmarks = bookmarks.filter(bookmark => bookmark.key !== key);
+        saveDatabase(db);
+        return false;
+    }
+    const source = entry.sourceIndex !== undefined ? entry.sources[entry.sourceIndex] : null;
+    db.bookmarks = [{ key, title: getBrowserEntryTitle(entry), uri: source?.web?.uri || '', entry: { ...entry }, added: Date.now() }, ...bookmarks];
+    saveDatabase(db);
+    return true;
+};
+
+const removeBookmark = (key: string) => {
+    const db = getDatabase();
+    db.bookmarks = (db.bookmarks || []).filter((bookmark: Bookmark) => bookmark.key !== key);
+    saveDatabase(db);
+};
+
+const renderBrowserHomepage = (windowEl: HTMLElement) => {
+    const bookmarks = getBookmarks();
+    const history = getSearchHistory();
+    const browserContent = windowEl.querySelector('.browser-content')!;
+    browserContent.innerHTML = `
+        <div class="browser-homepage">
+            <h1>AI Browser</h1>
+            <p>Search the web using the address bar.</p>
+            <div class="homepage-lists">
+                <section class="homepage-section">
+                    <h3>★ Bookmarks</h3>
+                    ${bookmarks.length === 0 ? '<p class="homepage-empty">Pages you bookmark with ☆ appear here.</p>' : `
+                        <ul class="bookmark-list">
+                            ${bookmarks.map((bookmark, index) => `
+                                <li>
+                                    <button class="bookmark-link" data-index="${index}" title="${escapeHtml(bookmark.uri || bookmark.title)}">${escapeHtml(bookmark.title)}</button>
+                                    <button class="remove-bookmark-btn" data-index="${index}" title="Remove bookmark">&times;</button>
+                                </li>
+                            `).join('')}
+                        </ul>
+                    `}
+                </section>
+                <section class="homepage-section">
+                    <h3>🕘 Recent searches ${history.length > 0 ? '<button class="clear-search-history-btn">Clear</button>' : ''}</h3>
+                    ${history.length === 0 ? '<p class="homepage-empty">Nothing searched yet.</p>' : `
+                        <ul class="search-history-list">
+                            ${history.map((item, index) => `
+                                <li><button class="search-history-link" data-index="${index}" title="Searched ${new Date(item.searched).toLocaleString()}">${escapeHtml(item.query)}</button></li>
+                            `).join('')}
+                        </ul>
+                    `}
+                </section>
+            </div>
+        </div>
+    `;
+    browserContent.querySelectorAll<HTMLElement>('.bookmark-link').forEach(link => link.addEventListener('click', () => {
+        const tab = getActiveBrowserTab(windowEl);
+        const bookmark = bookmarks[parseInt(link.dataset.index!, 10)];
+        if (tab && bookmark) visitBrowserEntry(windowEl, tab, bookmark.entry);
+    }));
+    browserContent.querySelectorAll<HTMLElement>('.remove-bookmark-btn').forEach(btn => btn.addEventListener('click', () => {
+        removeBookmark(bookmarks[parseInt(btn.dataset.index!, 10)].key);
+        renderBrowser(windowEl);
+    }));
+    browserContent.querySelectorAll<HTMLElement>('.search-history-link').forEach(link => link.addEventListener('click', () => {
+        const tab = getActiveBrowserTab(windowEl);
+        const item = history[parseInt(link.dataset.index!, 10)];
+        if (tab && item) searchInTab(windowEl, tab, item.query).catch(() => {});
+    }));
+    browserContent.querySelector('.clear-search-history-btn')?.addEventListener('click', () => {
+        clearSearchHistory();
+        renderBrowser(windowEl);
+    });
+};
+
+// --- Clip to Document ---
+/** The HTML a clip inserts: what the source says (or the whole summary if nothing is attributed), then a link to it. */
+const buildClipHtml = (entry: BrowserEntry): string => {
+    const source = entry.sources[entry.sourceIndex!];
+    const excerpts = getSourceExcerpts(entry, entry.sourceIndex!);
+    const paragraphs = excerpts?.length ? excerpts : entry.summary.split(/\n+/).filter(line => line.trim());
+    const title = source?.web?.title || 'Untitled';
+    return cleanDocumentHtml(`
+        <blockquote>${paragraphs.map(text => `<p>${escapeHtml(text.trim())}</p>`).join('')}</blockquote>
+        <p>Source: ${renderLink(source?.web?.uri, title)}</p>
+    `);
+};
+
+/**
+ * Appends a clip of the browser's current page view to the most recently used
+ * Document Writer window, opening a new document if there is none.
+ */
+const clipToDocument = async (browserWindow: HTMLElement, viaIcon = false): Promise<HTMLElement> => {
+    const tab = getActiveBrowserTab(browserWindow);
+    const entry = tab && !tab.status ? getBrowserEntry(tab) : null;
+    if (entry?.sourceIndex === undefined || !entry.sources[entry.sourceIndex]) {
+        throw new Error("Open a search result's page in the browser before clipping it.");
+    }
+    let docWindow = getWindowsByRecency().find(win => win.dataset.app === 'docs') || null;
+    if (!docWindow) docWindow = viaIcon ? await openAppViaIcon('docs', '#icon-docs') : openDocumentWriter();
+    if (!docWindow) throw new Error("I couldn't open a document to clip into.");
+    setActiveWindow(docWindow);
+    const body = docWindow.querySelector('.window-body') as HTMLElement;
+    body.insertAdjacentHTML('beforeend', buildClipHtml(entry));
+    markWindowDirty(docWindow);
+    body.scrollTop = body.scrollHeight;
+    return docWindow;
+};
+
+// --- Doodle Pad Tools ---
+// A doodle is a vector document: its strokes as they were drawn, with their
+// timing. The canvas only renders it, and is redrawn from the strokes after
+// undo/redo, while replaying and when the window is resized. Undo and redo
+// keep earlier versions of the document in bounded stacks.
+//
+// Stroke coordinates are CSS pixels of the canvas ("canvas coordinates"); the
+// canvas itself holds devicePixelRatio times as many pixels, so it stays sharp.
+type DoodleTool = 'pen' | 'eraser' | 'line' | 'rect' | 'ellipse' | 'fill';
+type DoodleShape = 'line' | 'rect' | 'ellipse';
+/**
+ * One stroke of a doodle. A path's points are its samples, a shape's are two opposite
+ * corners and a fill's is where it was poured. `times` holds each point's offset in ms from `start`.
+ */
+interface DoodleStroke {
+    kind: 'path' | DoodleShape | 'fill';
+    points: Point[];
+    times: number[];
+    start: number;
+    color: string;
+    width: number;
+    fill?: string;
+    erase?: boolean;
+}
+// `width` and `height` follow the canvas. `background` is a raster image under the strokes,
+// for doodles saved before strokes were kept.
+interface DoodleDocument { width: number, height: number, strokes: DoodleStroke[], background?: string }
+interface DoodleState {
+    tool: DoodleTool;
+    color: string;
+    width: number;
+    fillShapes: boolean;
+    document: DoodleDocument;
+    background: HTMLImageElement | null;
+    undo: DoodleDocument[];
+    redo: DoodleDocument[];
+    replayFrame: number | null;
+}
+const MAX_DOODLE_UNDO = 30;
+// Pauses between strokes are shortened to this in replays.
+const MAX_REPLAY_GAP_MS = 400;
+const DOODLE_TOOLS: { tool: DoodleTool, icon: string, title: string }[] = [
+    { tool: 'pen', icon: '✏️', title: 'Pen' },
+    { tool: 'eraser', icon: '🧽', title: 'Eraser' },
+    { tool: 'line', icon: '╱', title: 'Line' },
+    { tool: 'rect', icon: '▭', title: 'Rectangle' },
+    { tool: 'ellipse', icon: '◯', title: 'Ellipse' },
+    { tool: 'fill', icon: '🪣', title: 'Fill area' },
+];
+const doodleState = new Map<HTMLElement, DoodleState>();
+
+const getDoodleContext = (windowEl: HTMLElement) => (windowEl.querySelector('canvas') as HTMLCanvasElement).getContext('2d', { willReadFrequently: true })!;
+
+const copyDoodleDocument = (doc: DoodleDocument): DoodleDocument => ({ ...doc, strokes: doc.strokes.slice() });
+
+/** Records the document before a change so it can be undone. Any redo history is dropped. */
+const pushDoodleUndo = (windowEl: HTMLElement) => {
+    const state = doodleState.get(windowEl);
+    if (!state) return;
+    state.undo.push(copyDoodleDocument(state.document));
+    if (state.undo.length > MAX_DOODLE_UNDO) state.undo.shift();
+    state.redo = [];
+    updateDoodleToolbar(windowEl);
+};
+
+const stepDoodleHistory = (windowEl: HTMLElement, direction: 'undo' | 'redo') => {
+    const state = doodleState.get(windowEl);
+    const snapshot = state?.[direction].pop();
+    if (!state || !snapshot) return;
+    state[direction === 'undo' ? 'redo' : 'undo'].push(copyDoodleDocument(state.document));
+    setDoodleDocument(windowEl, snapshot);
+    markWindowDirty(windowEl);
+    updateDoodleToolbar(windowEl);
+};
+
+const clearDoodle = (windowEl: HTMLElement) => {
+    const state = doodleState.get(windowEl);
+    if (!state) return;
+    pushDoodleUndo(windowEl);
+    setDoodleDocument(windowEl, { width: state.document.width, height: state.document.height, strokes: [] });
+    markWindowDirty(windowEl);
+};
+
+/** Shows a document in the pad, loading its background image first if it has one. */
+const setDoodleDocument = (windowEl: HTMLElement, doc: DoodleDocument) => {
+    const state = doodleState.get(windowEl);
+    if (!state) return;
+    stopDoodleReplay(windowEl);
+    // Documents from other sizes keep their strokes where they were; only the canvas size applies.
+    state.document = { ...doc, width: state.document.width, height: state.document.height };
+    if (doc.background && state.background?.src !== doc.background) {
+        const img = new Image();
+        img.onload = () => {
+            if (state.document.background === doc.background) renderDoodle(windowEl);
+        };
+        img.src = doc.background;
+        state.background = img;
+    } else if (!doc.background) {
+        state.background = null;
+    }
+    renderDoodle(windowEl);
+};
+
+/** Opens a saved doodle: its strokes if it has them, otherwise its image as the background. */
+const loadDoodleFile = (windowEl: HTMLElement, content: string, vector?: DoodleDocument) => {
+    const state = doodleState.get(windowEl);
+    if (!state) return;
+    state.undo = [];
+    state.redo = [];
+    setDoodleDocument(windowEl, vector ? copyDoodleDocument(vector) : { ...state.document, strokes: [], background: content || undefined });
+    updateDoodleToolbar(windowEl);
+};
+
+const updateDoodleToolbar = (windowEl: HTMLElement) => {
+    const state = doodleState.get(windowEl);
+    const toolbar = windowEl.querySelector('.doodle-toolbar');
+    if (!state || !toolbar) return;
+    toolbar.querySelectorAll<HTMLElement>('.doodle-tool').forEach(btn => btn.classList.toggle('active', btn.dataset.tool === state.tool));
+    (toolbar.querySelector('.doodle-undo-btn') as HTMLButtonElement).disabled = state.undo.length === 0 || state.replayFrame !== null;
+    (toolbar.querySelector('.doodle-redo-btn') as HTMLButtonElement).disabled = state.redo.length === 0 || state.replayFrame !== null;
+    (toolbar.querySelector('.doodle-replay-btn') as HTMLButtonElement).disabled = state.document.strokes.length === 0;
+    toolbar.querySelector('.doodle-replay-btn')!.textContent = state.replayFrame !== null ? '⏹' : '▶';
+    toolbar.querySelector('.doodle-width-value')!.textContent = `${state.width}px`;
+};
+
+// Canvas colors can be any CSS color, so the browser does the parsing.
+const parseCanvasColor = (color: string): [number, number, number, number] => {
+    const ctx = document.createElement('canvas').getContext('2d')!;
+    ctx.fillStyle = color;
+    ctx.fillRect(0, 0, 1, 1);
+    const [r, g, b, a] = ctx.getImageData(0, 0, 1, 1).data;
+    return [r, g, b, a];
+};
+
+/**
+ * Fills the area of similar color around (x, y), like a paint bucket.
+ * Returns which pixels were filled (one byte per pixel), or null if none were.
+ */
+const floodFill = (ctx: CanvasRenderingContext2D, x: number, y: number, color: string, tolerance = 32): Uint8Array | null => {
+    const { width, height } = ctx.canvas;
+    // (x, y) is in the context's coordinates, which may be scaled from the canvas pixels.
+    ({ x, y } = ctx.getTransform().transformPoint({ x, y }));
+    x = Math.floor(x);
+    y = Math.floor(y);
+    if (x < 0 || y < 0 || x >= width || y >= height) return null;
+    const image = ctx.getImageData(0, 0, width, height);
+    const data = image.data;
+    const start = (y * width + x) * 4;
+    const target = [data[start], data[start + 1], data[start + 2], data[start + 3]];
+    const fill = parseCanvasColor(color);
+    if (fill.every((value, i) => value === target[i])) return null;
+    const matches = (offset: number) => Math.abs(data[offset] - target[0]) <= tolerance
+        && Math.abs(data[offset + 1] - target[1]) <= tolerance
+        && Math.abs(data[offset + 2] - target[2]) <= tolerance
+        && Math.abs(data[offset + 3] - target[3]) <= tolerance;
+    const filled = new Uint8Array(width * height);
+    const fillable = (px: number, py: number) => !filled[py * width + px] && matches((py * width + px) * 4);
+    const stack = [x, y];
+    while (stack.length > 0) {
+        const py = stack.pop()!;
+        let px = stack.pop()!;
+        // Walk left to the start of the run, then fill it rightwards, queueing each new run above and below.
+        while (px > 0 && fillable(px - 1, py)) px--;
+        let spanAbove = false;
+        let spanBelow = false;
+        for (; px < width && fillable(px, py); px++) {
+            filled[py * width + px] = 1;
+            data.set(fill, (py * width + px) * 4);
+            if (py > 0) {
+                const open = fillable(px, py - 1);
+                if (open && !spanAbove) stack.push(px, py - 1);
+                spanAbove = open;
+            }
+            if (py < height - 1) {
+                const open = fillable(px, py + 1);
+                if (open && !spanBelow) stack.push(px, py + 1);
+                spanBelow = open;
+            }
+        }
+    }
+    ctx.putImageData(image, 0, 0);
+    return filled;
+};
+
+const drawDoodleShape = (ctx: CanvasRenderingContext2D, tool: DoodleShape, from: Point, to: Point, fill: boolean) => {
+    ctx.beginPath();
+    if (tool === 'line') {
+        ctx.moveTo(...from);
+        ctx.lineTo(...to);
+    } else if (tool === 'rect') {
+        ctx.rect(from[0], from[1], to[0] - from[0], to[1] - from[1]);
+    } else {
+        ctx.ellipse((from[0] + to[0]) / 2, (from[1] + to[1]) / 2, Math.abs(to[0] - from[0]) / 2, Math.abs(to[1] - from[1]) / 2, 0, 0, Math.PI * 2);
+    }
+    if (fill && tool !== 'line') ctx.fill();
+    ctx.stroke();
+};
+
+const applyDoodleStyle = (ctx: CanvasRenderingContext2D, stroke: DoodleStroke) => {
+    ctx.strokeStyle = stroke.color;
+    ctx.fillStyle = stroke.fill || stroke.color;
+    ctx.lineWidth = stroke.width;
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    ctx.globalCompositeOperation = stroke.erase ? 'destination-out' : 'source-over';
+};
+
+/** Draws a stroke as it was `elapsed` ms after it began; by default, all of it. */
+const drawDoodleStroke = (ctx: CanvasRenderingContext2D, stroke: DoodleStroke, elapsed = Infinity) => {
+    ctx.save();
+    applyDoodleStyle(ctx, stroke);
+    if (stroke.kind === 'fill') {
+        floodFill(ctx, ...stroke.points[0], stroke.color);
+    } else if (stroke.kind === 'path') {
+        const count = stroke.times.filter(time => time <= elapsed).length;
+        if (count > 0) {
+            ctx.beginPath();
+            ctx.moveTo(...stroke.points[0]);
+            // A single point still leaves a dot.
+            for (let i = count > 1 ? 1 : 0; i < count; i++) ctx.lineTo(...stroke.points[i]);
+            if (stroke.fill && count === stroke.points.length) {
+                ctx.closePath();
+                ctx.fill();
+            }
+            ctx.stroke();
+        }
+    } else {
+        // A shape grows from its first corner to its last over the time it was dragged.
+        const [from, to] = stroke.points;
+        const progress = stroke.times[1] > 0 ? Math.min(1, elapsed / stroke.times[1]) : 1;
+        const corner: Point = [from[0] + (to[0] - from[0]) * progress, from[1] + (to[1] - from[1]) * progress];
+        drawDoodleShape(ctx, stroke.kind, from, corner, !!stroke.fill);
+    }
+    ctx.restore();
+};
+
+/**
+ * When each stroke starts in a replay, in ms, followed by when the replay ends.
+ * Strokes keep their own pace, but long pauses between them are shortened.
+ */
+const getReplayTimeline = (strokes: DoodleStroke[]): number[] => {
+    const offsets = [0];
+    strokes.forEach((stroke, i) => {
+        const duration = stroke.times[stroke.times.length - 1] || 0;
+        const next = strokes[i + 1];
+        const gap = next ? Math.min(MAX_REPLAY_GAP_MS, Math.max(0, next.start - (stroke.start + duration))) : 0;
+        offsets.push(offsets[i] + duration + gap);
+    });
+    return offsets;
+};
+
+/** Redraws the canvas from the document, as it looked `elapsed` ms into a replay; by default, finished. */
+const renderDoodle = (windowEl: HTMLElement, elapsed = Infinity) => {
+    const state = doodleState.get(windowEl);
+    if (!state) return;
+    const ctx = getDoodleContext(windowEl);
+    ctx.clearRect(0, 0, ctx.canvas.width, ctx.canvas.height);
+    if (state.background?.complete) ctx.drawImage(state.background, 0, 0, state.background.naturalWidth, state.background.naturalHeight);
+    const timeline = getReplayTimeline(state.document.strokes);
+    state.document.strokes.forEach((stroke, i) => {
+        if (elapsed >= timeline[i]) drawDoodleStroke(ctx, stroke, elapsed - timeline[i]);
+    });
+};
+
+const stopDoodleReplay = (windowEl: HTMLElement) => {
+    const state = doodleState.get(windowEl);
+    if (!state || state.replayFrame === null) return;
+    cancelAnimationFrame(state.replayFrame);
+    state.replayFrame = null;
+    renderDoodle(windowEl);
+    updateDoodleToolbar(windowEl);
+};
+
+/** Plays the doodle back stroke by stroke. Drawing is paused until it finishes or is stopped. */
+const replayDoodle = (windowEl: HTMLElement) => {
+    const state = doodleState.get(windowEl);
+    if (!state || state.document.strokes.length === 0) return;
+    const end = getReplayTimeline(state.document.strokes).pop()!;
+    const startedAt = performance.now();
+    const step = (now: number) => {
+        if (doodleState.get(windowEl) !== state) return;
+        const elapsed = now - startedAt;
+        if (elapsed > end) {
+            stopDoodleReplay(windowEl);
+            return;
+        }
+        renderDoodle(windowEl, elapsed);
+        state.replayFrame = requestAnimationFrame(step);
+    };
+    state.replayFrame = requestAnimationFrame(step);
+    updateDoodleToolbar(windowEl);
+};
+
+const strokeToSvg = (stroke: DoodleStroke, color = stroke.color): string => {
+    const paint = `stroke="${escapeHtml(color)}" stroke-width="${stroke.width}" stroke-linecap="round" stroke-linejoin="round"`;
+    const fill = stroke.fill && !stroke.erase ? escapeHtml(stroke.fill) : stroke.fill ? escapeHtml(color) : 'none';
+    const [from, to] = stroke.points;
+    switch (stroke.kind) {
+        case 'path': {
+            const points = stroke.points.length > 1 ? stroke.points : [from, from];
+            const d = points.map(([x, y], i) => `${i ? 'L' : 'M'}${x} ${y}`).join(' ') + (stroke.fill ? ' Z' : '');
+            return `<path d="${d}" fill="${fill}" ${paint}/>`;
+        }
+        case 'line':
+            return `<line x1="${from[0]}" y1="${from[1]}" x2="${to[0]}" y2="${to[1]}" ${paint}/>`;
+        case 'rect':
+            return `<rect x="${Math.min(from[0], to[0])}" y="${Math.min(from[1], to[1])}" width="${Math.abs(to[0] - from[0])}" height="${Math.abs(to[1] - from[1])}" fill="${fill}" ${paint}/>`;
+        case 'ellipse':
+            return `<ellipse cx="${(from[0] + to[0]) / 2}" cy="${(from[1] + to[1]) / 2}" rx="${Math.abs(to[0] - from[0]) / 2}" ry="${Math.abs(to[1] - from[1]) / 2}" fill="${fill}" ${paint}/>`;
+        default:
+            return '';
+    }
+};
+
+/**
+ * Builds an SVG of the doodle. Strokes become SVG shapes; eraser strokes become masks over
+ * everything drawn before them. Paint-bucket fills depend on the pixels around them, so each
+ * one is worked out on an offscreen canvas and embedded as an image layer.
+ */
+const doodleToSvg = (doc: DoodleDocument, background: HTMLImageElement | null): string => {
+    const { width, height } = doc;
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+    const defs: string[] = [];
+    let content = '';
+    if (doc.background) {
+        if (background?.complete) ctx.drawImage(background, 0, 0);
+        content += `<image href="${escapeHtml(doc.background)}" width="${background?.naturalWidth || width}" height="${background?.naturalHeight || height}"/>`;
+    }
+    doc.strokes.forEach((stroke, i) => {
+        if (stroke.kind === 'fill') {
+            const filled = floodFill(ctx, ...stroke.points[0], stroke.color);
+            if (!filled) return;
+            const layer = document.createElement('canvas');
+            layer.width = width;
+            layer.height = height;
+            const layerCtx = layer.getContext('2d')!;
+            const image = layerCtx.createImageData(width, height);
+            const color = parseCanvasColor(stroke.color);
+            filled.forEach((isFilled, pixel) => {
+                if (isFilled) image.data.set(color, pixel * 4);
+            });
+            layerCtx.putImageData(image, 0, 0);
+            content += `<image href="${layer.toDataURL('image/png')}" width="${width}" height="${height}"/>`;
+            return;
+        }
+        drawDoodleStroke(ctx, stroke);
+        if (stroke.erase) {
+            defs.push(`<mask id="erase-${i}" maskUnits="userSpaceOnUse" x="0" y="0" width="${width}" height="${height}"><rect width="${width}" height="${height}" fill="white"/>${strokeToSvg(stroke, 'black')}</mask>`);
+            content = `<g mask="url(#erase-${i})">${content}</g>`;
+        } else {
+            content += strokeToSvg(stroke);
+        }
+    });
+    return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`
+        + (defs.length ? `<defs>${defs.join('')}</defs>` : '')
+        + content + '</svg>\n';
+};
+
+const exportDoodleSvg = (windowEl: HTMLElement) => {
+    const state = doodleState.get(windowEl);
+    if (!state) return;
+    const name = openFiles.get(windowEl)?.name || 'doodle.png';
+    downloadFile(`${name.replace(/\.[^.]+$/, '')}.svg`, doodleToSvg(state.document, state.background), 'image/svg+xml');
+};
+
+/**
+ * Sizes the canvas to fill its window at the screen's pixel density and redraws the doodle.
+ * Strokes keep their coordinates, so shrinking the window only hides what falls outside.
+ */
+const resizeDoodleCanvas = (windowEl: HTMLElement) => {
+    const state = doodleState.get(windowEl);
+    const canvas = windowEl.querySelector('canvas') as HTMLCanvasElement | null;
+    // Minimized windows have no size to follow.
+    if (!state || !canvas || canvas.clientWidth === 0 || canvas.clientHeight === 0) return;
+    const width = canvas.clientWidth;
+    const height = canvas.clientHeight;
+    const ratio = window.devicePixelRatio || 1;
+    if (width === state.document.width && height === state.document.height && canvas.width === Math.round(width * ratio)) return;
+    canvas.width = Math.round(width * ratio);
+    canvas.height = Math.round(height * ratio);
+    state.document.width = width;
+    state.document.height = height;
+    getDoodleContext(windowEl).setTransform(canvas.width / width, 0, 0, canvas.height / height, 0, 0);
+    renderDoodle(windowEl);
+};
+
+// Zooming or moving to another screen changes the pixel density without resizing the canvas.
+const watchPixelRatio = (windowEl: HTMLElement) => {
+    matchMedia(`(resolution: ${window.devicePixelRatio}dppx)`).addEventListener('change', () => {
+        if (!doodleState.has(windowEl)) return;
+        resizeDoodleCanvas(windowEl);
+        watchPixelRatio(windowEl);
+    }, { once: true });
+};
+
+// Where a mouse event falls in canvas coordinates, even if the canvas is scaled by CSS.
+const getDoodlePoint = (windowEl: HTMLElement, e: MouseEvent): Point => {
+    const { document: doc } = doodleState.get(windowEl)!;
+    const rect = windowEl.querySelector('canvas')!.getBoundingClientRect();
+    const x = (e.clientX - rect.left) * doc.width / rect.width;
+    const y = (e.clientY - rect.top) * doc.height / rect.height;
+    return [Math.round(x * 10) / 10, Math.round(y * 10) / 10];
+};
+
+const getDoodleCanvasSnapshot = (windowEl: HTMLElement, desktopRect: DOMRect): WindowSnapshot['canvas'] => {
+    const state = doodleState.get(windowEl);
+    const canvas = windowEl.querySelector('canvas');
+    if (!state || !canvas || canvas.getClientRects().length === 0) return undefined;
+    const rect = canvas.getBoundingClientRect();
+    return {
+        left: Math.round(rect.left - desktopRect.left),
+        top: Math.round(rect.top - desktopRect.top),
+        width: state.document.width,
+        height: state.document.height,
+    };
+};
+
+/** Adds the tool palette above the canvas and wires mouse drawing with the selected tool. */
+const createDoodleToolbar = (windowEl: HTMLElement, canvas: HTMLCanvasElement) => {
+    const state: DoodleState = {
+        tool: 'pen', color: '#000000', width: 2, fillShapes: false,
+        document: { width: canvas.width, height: canvas.height, strokes: [] },
+        background: null, undo: [], redo: [], replayFrame: null,
+    };
+    doodleState.set(windowEl, state);
+    const toolbar = document.createElement('div');
+    toolbar.className = 'doodle-toolbar';
+    toolbar.innerHTML = `
+        ${DOODLE_TOOLS.map(({ tool, icon, title }) => `<button class="doodle-tool" data-tool="${tool}" title="${title}">${icon}</button>`).join('')}
+        <input type="color" class="doodle-color" value="${state.color}" title="Color">
+        <input type="range" class="doodle-width" min="1" max="40" value="${state.width}" title="Brush size">
+        <span class="doodle-width-value"></span>
+        <label class="doodle-fill-shapes" title="Fill rectangles and ellipses"><input type="checkbox"> Filled</label>
+        <button class="doodle-undo-btn" title="Undo (Ctrl+Z)">↶</button>
+        <button class="doodle-redo-btn" title="Redo (Ctrl+Y)">↷</button>
+        <button class="doodle-clear-btn" title="Clear">🗑️</button>
+        <button class="doodle-replay-btn" title="Replay drawing">▶</button>
+        <button class="doodle-svg-btn" title="Export as SVG">SVG</button>
+    `;
+    canvas.before(toolbar);
+    toolbar.querySelectorAll<HTMLElement>('.doodle-tool').forEach(btn => btn.addEventListener('click', () => {
+        state.tool = btn.dataset.tool as DoodleTool;
+        updateDoodleToolbar(windowEl);
+    }));
+    const colorInput = toolbar.querySelector('.doodle-color') as HTMLInputElement;
+    colorInput.addEventListener('input', () => state.color = colorInput.value);
+    const widthInput = toolbar.querySelector('.doodle-width') as HTMLInputElement;
+    widthInput.addEventListener('input', () => {
+        state.width = parseInt(widthInput.value, 10);
+        updateDoodleToolbar(windowEl);
+    });
+    const fillInput = toolbar.querySelector('.doodle-fill-shapes input') as HTMLInputElement;
+    fillInput.addEventListener('change', () => state.fillShapes = fillInput.checked);
+    toolbar.querySelector('.doodle-undo-btn')!.addEventListener('click', () => stepDoodleHistory(windowEl, 'undo'));
+    toolbar.querySelector('.doodle-redo-btn')!.addEventListener('click', () => stepDoodleHistory(windowEl, 'redo'));
+    toolbar.querySelector('.doodle-clear-btn')!.addEventListener('click', () => clearDoodle(windowEl));
+    toolbar.querySelector('.doodle-replay-btn')!.addEventListener('click', () => {
+        if (state.replayFrame !== null) stopDoodleReplay(windowEl);
+        else replayDoodle(windowEl);
+    });
+    toolbar.querySelector('.doodle-svg-btn')!.addEventListener('click', () => exportDoodleSvg(windowEl));
+    windowEl.addEventListener('keydown', (e) => {
+        const shortcut = getShortcutName(e);
+        if (shortcut === 'Ctrl+Z' || shortcut === 'Ctrl+Y' || shortcut === 'Ctrl+Shift+Z') {
+            e.preventDefault();
+            stepDoodleHistory(windowEl, shortcut === 'Ctrl+Z' ? 'undo' : 'redo');
+        }
+    });
+
+    const ctx = getDoodleContext(windowEl);
+    let start: Point | null = null;
+    let stroke: DoodleStroke | null = null;
+    let before: ImageData | null = null;
+    const newStroke = (kind: DoodleStroke['kind'], points: Point[]): DoodleStroke => {
+        pushDoodleUndo(windowEl);
+        markWindowDirty(windowEl);
+        const created: DoodleStroke = { kind, points, times: points.map(() => 0), start: Date.now(), color: state.color, width: state.width };
+        if (state.tool === 'eraser') created.erase = true;
+        if (state.fillShapes && (kind === 'rect' || kind === 'ellipse')) created.fill = state.color;
+        state.document.strokes.push(created);
+        updateDoodleToolbar(windowEl);
+        return created;
+    };
+    canvas.tabIndex = 0;
+    canvas.addEventListener('mousedown', (e) => {
+        canvas.focus();
+        if (state.replayFrame !== null) return;
+        start = getDoodlePoint(windowEl, e);
+        if (state.tool === 'fill') {
+            // Only fills that change something are kept.
+            if (floodFill(ctx, ...start, state.color)) newStroke('fill', [start]);
+            start = null;
+        } else if (state.tool === 'pen' || state.tool === 'eraser') {
+            stroke = newStroke('path', [start]);
+            drawDoodleStroke(ctx, stroke);
+        } else {
+            // Shapes are added on the first drag, so a plain click doesn't leave an empty one.
+            before = ctx.getImageData(0, 0, canvas.width, canvas.height);
+        }
+    });
+    canvas.addEventListener('mousemove', (e) => {
+        if (!start) return;
+        const point = getDoodlePoint(windowEl, e);
+        if (state.tool === 'pen' || state.tool === 'eraser') {
+            const last = stroke!.points[stroke!.points.length - 1];
+            stroke!.points.push(point);
+            stroke!.times.push(Date.now() - stroke!.start);
+            ctx.save();
+            applyDoodleStyle(ctx, stroke!);
+            ctx.beginPath();
+            ctx.moveTo(...last);
+            ctx.lineTo(...point);
+            ctx.stroke();
+            ctx.restore();
+        } else {
+            stroke = stroke || newStroke(state.tool as DoodleShape, [start, point]);
+            stroke.points[1] = point;
+            stroke.times[1] = Date.now() - stroke.start;
+            // Shapes are previewed by redrawing over the canvas as it was when the drag started.
+            ctx.putImageData(before!, 0, 0);
+            drawDoodleStroke(ctx, stroke);
+        }
+    });
+    const stopDrawing = () => {
+        start = null;
+        stroke = null;
+        before = null;
+    };
+    canvas.addEventListener('mouseup', stopDrawing);
+    canvas.addEventListener('mouseout', stopDrawing);
+    updateDoodleToolbar(windowEl);
+};
+
+const useDoodlePad = async (lines: DoodleLine[]) => {
+    let windowEl: HTMLElement | null = openWindows.get('doodle') || null;
+    if (!windowEl) {
+        windowEl = await openAppViaIcon('doodle', '#icon-doodle');
+        if (!windowEl) {
+            throw new Error("I couldn't open the Doodle Pad.");
+        }
+    }
+    setActiveWindow(windowEl!);
+    stopDoodleReplay(windowEl!);
+    // The whole drawing is one undo step.
+    pushDoodleUndo(windowEl!);
+    markWindowDirty(windowEl!);
+    const state = doodleState.get(windowEl!)!;
+    const ctx = getDoodleContext(windowEl!);
+    for (const { points, color, width, fill } of lines) {
+        if (points.length < 2) continue;
+        const stroke: DoodleStroke = { kind: 'path', points: [points[0]], times: [0], start: Date.now(), color: color || '#000', width: width || 2 };
+        state.document.strokes.push(stroke);
+        for (let i = 1; i < points.length; i++) {
+            stroke.points.push(points[i]);
+            stroke.times.push(Date.now() - stroke.start);
+            ctx.save();
+            applyDoodleStyle(ctx, stroke);
+            ctx.beginPath();
+            ctx.moveTo(...points[i - 1]);
+            ctx.lineTo(...points[i]);
+            ctx.stroke();
+            ctx.restore();
+            await sleep(10);
+        }
+        if (fill) {
+            stroke.fill = fill;
+            renderDoodle(windowEl!);
+        }
+    }
+    updateDoodleToolbar(windowEl!);
+};
+const openDoodlePad = (file: { name: string, content: string, vector?: DoodleDocument } | null = null): HTMLElement => {
+    if (file) {
+        for (const [win, fileInfo] of openFiles.entries()) {
+            if (fileInfo.type === 'doodle' && fileInfo.name === file.name) {
+                setActiveWindow(win);
+                return win;
+            }
+        }
+    }
+    const windowTitle = file ? `🎨 ${file.name}` : '🎨 Doodle Pad';
+    const windowEl = createAppWindow(windowTitle, '', 'doodle', true);
+    openWindows.set('doodle', windowEl);
+    const body = windowEl.querySelector('.window-body')!;
+    const canvas = document.createElement('canvas');
+    body.appendChild(canvas);
+    createDoodleToolbar(windowEl, canvas);
+    resizeDoodleCanvas(windowEl);
+    // Covers window resizing, maximizing and snapping, and the toolbar wrapping onto more rows.
+    new ResizeObserver(() => resizeDoodleCanvas(windowEl)).observe(canvas);
+    watchPixelRatio(windowEl);
+    if (file) {
+        loadDoodleFile(windowEl, file.content, file.vector);
+        openFiles.set(windowEl, { type: 'doodle', name: file.name });
+    }
+    const controls = windowEl.querySelector('.window-controls')!;
+    const saveBtn = document.createElement('button');
+    saveBtn.className = 'save-btn';
+    saveBtn.innerHTML = '💾';
+    saveBtn.title = 'Save Doodle';
+    controls.prepend(saveBtn);
+    saveBtn.addEventListener('click', () => saveWindowFile(windowEl));
+    return windowEl;
+};
+// --- Image Studio Gallery & Prompt History ---
+// The latest images generated while the studio is open stay in its gallery, and
+// the selected one is what gets copied and saved. Saved sessions keep only the
+// selected image, since the rest would soon fill the storage quota. Prompts are
+// kept per user in the database, with their options, so they can be run again.
+interface GalleryImage { src: string, prompt: string, options: ImageOptions }
+// `selected` is -1 while the studio shows a saved file instead of a gallery image.
+interface StudioState { images: GalleryImage[], selected: number }
+interface PromptHistoryItem { prompt: string, options: ImageOptions, generated: number }
+const MAX_PROMPT_HISTORY = 30;
+const MAX_GALLERY_IMAGES = 12;
+const studioState = new Map<HTMLElement, StudioState>();
+
+/** Checks a generate_image action's options, filling in defaults for the ones it leaves out. */
+const getImageOptions = (fields: { count?: number, aspect_ratio?: string, style?: string, negative_prompt?: string }): ImageOptions => {
+    const count = fields.count ?? DEFAULT_IMAGE_OPTIONS.count;
+    if (!Number.isInteger(count) || count < 1 || count > MAX_IMAGES_PER_GENERATION) {
+        throw new Error(`"count" must be a whole number from 1 to ${MAX_IMAGES_PER_GENERATION}.`);
+    }
+    const aspectRatio = fields.aspect_ratio || DEFAULT_IMAGE_OPTIONS.aspectRatio;
+    if (!IMAGE_ASPECT_RATIOS.includes(aspectRatio)) {
+        throw new Error(`Unknown aspect ratio "${aspectRatio}". Use one of ${IMAGE_ASPECT_RATIOS.join(', ')}.`);
+    }
+    const style = fields.style || DEFAULT_IMAGE_OPTIONS.style;
+    if (!IMAGE_STYLES[style]) {
+        throw new Error(`Unknown style "${style}". Use one of ${Object.keys(IMAGE_STYLES).filter(key => key !== 'none').join(', ')}.`);
+    }
+    return { count, aspectRatio, style, negativePrompt: fields.negative_prompt?.trim() || '' };
+};
+
+// The action that repeats a generation, leaving out options that are at their defaults.
+const toGenerateImageAction = (prompt: string, options: ImageOptions): Action => ({
+    action: 'generate_image',
+    prompt,
+    ...(options.count !== DEFAULT_IMAGE_OPTIONS.count && { count: options.count }),
+    ...(options.aspectRatio !== DEFAULT_IMAGE_OPTIONS.aspectRatio && { aspect_ratio: options.aspectRatio }),
+    ...(options.style !== DEFAULT_IMAGE_OPTIONS.style && { style: options.style }),
+    ...(options.negativePrompt && { negative_prompt: options.negativePrompt }),
+});
+
+const describeImageOptions = (options: ImageOptions): string => [
+    `${options.count} image${options.count === 1 ? '' : 's'}`,
+    options.aspectRatio,
+    ...(options.style !== 'none' ? [IMAGE_STYLES[options.style]?.label || options.style] : []),
+    ...(options.negativePrompt ? [`without ${options.negativePrompt}`] : []),
+].join(' · ');
+
+const getPromptHistory = (): PromptHistoryItem[] => getDatabase().imagePrompts || [];
+
+// Running a prompt again with the same options moves it to the top instead of repeating it.
+const addToPromptHistory = (prompt: string, options: ImageOptions) => {
+    const db = getDatabase();
+    const key = JSON.stringify([prompt, options]);
+    const history = (db.imagePrompts || []).filter((item: PromptHistoryItem) => JSON.stringify([item.prompt, item.options]) !== key);
+    db.imagePrompts = [{ prompt, options, generated: Date.now() }, ...history].slice(0, MAX_PROMPT_HISTORY);
+    saveDatabase(db);
+};
+
+const clearPromptHistory = () => {
+    const db = getDatabase();
+    db.imagePrompts = [];
+    saveDatabase(db);
+};
+
+const readImageForm = (windowEl: HTMLElement): ImageOptions => ({
+    count: parseInt((windowEl.querySelector('.image-count') as HTMLSelectElement).value, 10),
+    aspectRatio: (windowEl.querySelector('.image-aspect') as HTMLSelectElement).value,
+    style: (windowEl.querySelector('.image-style') as HTMLSelectElement).value,
+    negativePrompt: (windowEl.querySelector('.image-negative') as HTMLInputElement).value.trim(),
+});
+
+const fillImageForm = (windowEl: HTMLElement, prompt: string, options: ImageOptions) => {
+    (windowEl.querySelector('.image-prompt-input') as HTMLInputElement).value = prompt;
+    (windowEl.querySelector('.image-count') as HTMLSelectElement).value = String(options.count);
+    (windowEl.querySelector('.image-aspect') as HTMLSelectElement).value = options.aspectRatio;
+    (windowEl.querySelector('.image-style') as HTMLSelectElement).value = options.style;
+    (windowEl.querySelector('.image-negative') as HTMLInputElement).value = options.negativePrompt;
+};
+
+const renderStudioGallery = (windowEl: HTMLElement) => {
+    const state = studioState.get(windowEl);
+    const gallery = windowEl.querySelector('.image-gallery') as HTMLElement;
+    if (!state || !gallery) return;
+    gallery.classList.toggle('hidden', state.images.length === 0);
+    gallery.innerHTML = state.images.map((image, index) => `
+        <button class="gallery-thumb ${index === state.selected ? 'active' : ''}" data-index="${index}" title="${escapeHtml(image.prompt)}" aria-label="Image ${index + 1}: ${escapeHtml(image.prompt)}">
+            ${renderImageTag(image.src, image.prompt)}
+        </button>
+    `).join('');
+    gallery.querySelectorAll<HTMLElement>('.gallery-thumb').forEach(thumb => thumb.addEventListener('click', () => {
+        const image = state.images[parseInt(thumb.dataset.index!, 10)];
+        showGalleryImage(windowEl, parseInt(thumb.dataset.index!, 10));
+        clipboard = { type: 'image', data: image.src };
+        showToast('Image copied to clipboard.');
+    }));
+};
+
+/** Shows a gallery image in the studio, making it the one that is saved. */
+const showGalleryImage = (windowEl: HTMLElement, index: number) => {
+    const state = studioState.get(windowEl);
+    const image = state?.images[index];
+    if (!state || !image) return;
+    state.selected = index;
+    windowEl.querySelector('.image-prompt')!.textContent = `Prompt: "${image.prompt}" (${describeImageOptions(image.options)})`;
+    windowEl.querySelector('.image-container')!.innerHTML = renderImageTag(image.src, image.prompt);
+    renderStudioGallery(windowEl);
+};
+
+const renderPromptHistory = (windowEl: HTMLElement) => {
+    const history = getPromptHistory();
+    const list = windowEl.querySelector('.image-history-list');
+    if (!list) return;
+    list.innerHTML = history.length === 0 ? '<p class="homepage-empty">Prompts you generate appear here.</p>' : `
+        <ul>
+            ${history.map((item, index) => `
+                <li>
+                    <button class="image-history-link" data-index="${index}" title="Generated ${new Date(item.generated).toLocaleString()}">
+                        ${escapeHtml(item.prompt)} <span class="image-history-options">${escapeHtml(describeImageOptions(item.options))}</span>
+                    </button>
+                    <button class="image-history-rerun-btn" data-index="${index}" title="Generate again">↻</button>
+                </li>
+            `).join('')}
+        </ul>
+        <button class="clear-prompt-history-btn">Clear history</button>
+    `;
+    // Picking a prompt puts it in the form to tweak; ↻ runs it again as it was.
+    list.querySelectorAll<HTMLElement>('.image-history-link').forEach(link => link.addEventListener('click', () => {
+        const item = history[parseInt(link.dataset.index!, 10)];
+        fillImageForm(windowEl, item.prompt, item.options);
+    }));
+    list.querySelectorAll<HTMLElement>('.image-history-rerun-btn').forEach(btn => btn.addEventListener('click', () => {
+        const item = history[parseInt(btn.dataset.index!, 10)];
+        recordMacroStep(toGenerateImageAction(item.prompt, item.options));
+        useImageStudio(item.prompt, item.options);
+    }));
+    list.querySelector('.clear-prompt-history-btn')?.addEventListener('click', () => {
+        clearPromptHistory();
+        renderPromptHistory(windowEl);
+    });
+};
+
+// What a saved session keeps of the gallery: the selected image, if there is one.
+const getSessionStudioState = (windowEl: HTMLElement): StudioState | undefined => {
+    const state = studioState.get(windowEl);
+    const selected = state?.images[state.selected];
+    if (!state) return undefined;
+    return selected ? { images: [selected], selected: 0 } : { images: [], selected: -1 };
+};
+
+// Sessions saved before the gallery existed have no studio state.
+const restoreStudioState = (windowEl: HTMLElement, saved: StudioState) => {
+    studioState.set(windowEl, { images: saved.images || [], selected: saved.selected ?? -1 });
+    if (saved.selected >= 0) showGalleryImage(windowEl, saved.selected);
+    else renderStudioGallery(windowEl);
+};
+
+// Resolves to whether any image was generated.
+const useImageStudio = async (prompt: string, options: ImageOptions = DEFAULT_IMAGE_OPTIONS): Promise<boolean> => {
+    let windowEl: HTMLElement | null = openWindows.get('studio') || null;
+    if (!windowEl) {
+        windowEl = await openAppViaIcon('studio', '#icon-studio');
+        if (!windowEl) {
+            throw new Error("I couldn't open the Image Studio.");
+        }
+    }
+    setActiveWindow(windowEl);
+    const imageContainer = windowEl.querySelector('.image-container')!;
+    const promptDisplay = windowEl.querySelector('.image-prompt')!;
+    const generateBtn = windowEl.querySelector('.image-generate-btn') as HTMLButtonElement;
+    fillImageForm(windowEl, prompt, options);
+    addToPromptHistory(prompt, options);
+    renderPromptHistory(windowEl);
+    promptDisplay.textContent = `Prompt: "${prompt}" (${describeImageOptions(options)})`;
+    imageContainer.innerHTML = `<div class="spinner"></div><p>Generating ${options.count === 1 ? 'image' : `${options.count} images`}...</p>`;
+    generateBtn.disabled = true;
+    try {
+        const imageUrls = await getActiveProvider().generateImages(prompt, options);
+        const state = studioState.get(windowEl);
+        if (imageUrls.length > 0 && state) {
+            state.images.push(...imageUrls.map(src => ({ src, prompt, options })));
+            // The oldest images make room for new ones.
+            state.images.splice(0, Math.max(0, state.images.length - MAX_GALLERY_IMAGES));
+            showGalleryImage(windowEl, state.images.length - imageUrls.length);
+            clipboard = { type: 'image', data: imageUrls[0] };
+            showToast(imageUrls.length === 1 ? 'Image generated and copied to clipboard.' : `${imageUrls.length} images generated; the first is copied to the clipboard.`);
+            return true;
+        }
+        imageContainer.innerHTML = `<p class="error">Couldn't generate an image for that prompt.</p>`;
+    } catch (error) {
+        console.error("Image generation error:", error);
+        imageContainer.innerHTML = `<p class="error">An error occurred during image generation.</p>`;
+    } finally {
+        generateBtn.disabled = false;
+    }
+    return false;
+};
+const openImageStudio = (): HTMLElement => {
+    if(openWindows.has('studio')) {
+        const win = openWindows.get('studio')!;
+        setActiveWindow(win);
+        return win;
+    }
+    const windowEl = createAppWindow('🖼️ Image Studio', '', 'studio');
+    openWindows.set('studio', windowEl);
+    studioState.set(windowEl, { images: [], selected: -1 });
+    const body = windowEl.querySelector('.window-body')!;
+    body.innerHTML = `
+        <div class="image-studio-content">
+            <form class="image-studio-form">
+                <div class="image-prompt-row">
+                    <input type="text" class="image-prompt-input" placeholder="Describe an image..." aria-label="Image prompt">
+                    <button type="submit" class="image-generate-btn">Generate</button>
+                </div>
+                <div class="image-options">
+                    <label>Images <select class="image-count">
+                        ${Array.from({ length: MAX_IMAGES_PER_GENERATION }, (_, i) => `<option value="${i + 1}">${i + 1}</option>`).join('')}
+                    </select></label>
+                    <label>Aspect <select class="image-aspect">
+                        ${IMAGE_ASPECT_RATIOS.map(ratio => `<option value="${ratio}">${ratio}</option>`).join('')}
+                    </select></label>
+                    <label>Style <select class="image-style">
+                        ${Object.entries(IMAGE_STYLES).map(([key, { label }]) => `<option value="${key}">${label}</option>`).join('')}
+                    </select></label>
+                    <input type="text" class="image-negative" placeholder="Leave out..." aria-label="Negative prompt">
+                </div>
+            </form>
+            <div class="image-prompt">Describe an image above, or ask for one via chat.</div>
+            <div class="image-container">
+                 <div class="placeholder">
+                    <span>🖼️</span>
+                    <p>Generated image will appear here.</p>
                 </div>
             </div>
-            <div class="google-search-results">
-                ${resultsHtml || '<p>No results found.</p>'}
+            <div class="image-gallery hidden"></div>
+            <details class="image-history">
+                <summary>🕘 Prompt history</summary>
+                <div class="image-history-list"></div>
+            </details>
+        </div>
+    `;
+    body.querySelector('.image-studio-form')!.addEventListener('submit', (e) => {
+        e.preventDefault();
+        const prompt = (body.querySelector('.image-prompt-input') as HTMLInputElement).value.trim();
+        if (!prompt) return;
+        const options = readImageForm(windowEl);
+        recordMacroStep(toGenerateImageAction(prompt, options));
+        useImageStudio(prompt, options);
+    });
+    renderPromptHistory(windowEl);
+    const controls = windowEl.querySelector('.window-controls')!;
+    const saveBtn = document.createElement('button');
+    saveBtn.className = 'save-btn';
+    saveBtn.innerHTML = '💾';
+    saveBtn.title = 'Save Image';
+    controls.prepend(saveBtn);
+    saveBtn.addEventListener('click', () => saveWindowFile(windowEl));
+    return windowEl;
+};
+const openImageViewer = (name: string, content: string, vector?: DoodleDocument) => {
+    for (const [win, fileInfo] of openFiles.entries()) {
+        if (['doodle', 'studio'].includes(fileInfo.type) && fileInfo.name === name) {
+            setActiveWindow(win);
+            return;
+        }
+    }
+    const isDoodle = !!vector || name.toLowerCase().includes('doodle');
+    if (isDoodle) {
+        openDoodlePad({ name, content, vector });
+    } else {
+        openImageStudioWithContent(name, content);
+    }
+};
+const openImageStudioWithContent = (name: string, content: string): HTMLElement => {
+    const windowEl = openImageStudio();
+    setActiveWindow(windowEl);
+    const imageContainer = windowEl.querySelector('.image-container')!;
+    const promptDisplay = windowEl.querySelector('.image-prompt')!;
+    promptDisplay.textContent = `Viewing: "${name}"`;
+    imageContainer.innerHTML = renderImageTag(content, name);
+    const state = studioState.get(windowEl);
+    if (state) {
+        state.selected = -1;
+        renderStudioGallery(windowEl);
+    }
+    openFiles.set(windowEl, { type: 'studio', name });
+    setWindowTitle(windowEl, `🖼️ ${name}`);
+    return windowEl;
+};
+const renderExplorer = async (windowEl: HTMLElement) => {
+    const body = windowEl.querySelector('.window-body')! as HTMLElement;
+    if (body.dataset.historyName) {
+        return renderFileHistory(windowEl, body.dataset.historyType as 'documents' | 'images', body.dataset.historyName);
+    }
+    const view = body.dataset.view || 'list';
+    const allFiles = await getFiles();
+    if (!allFiles) return;
+
+    const documents = Object.entries(allFiles.documents || {}).map(([name, data]) => ({ name, type: 'document', data }));
+    const images = Object.entries(allFiles.images || {}).map(([name, data]) => ({ name, type: 'image', data }));
+    
+    const files = [...documents, ...images].sort((a, b) => (b.data as any).modified - (a.data as any).modified);
+
+    if (files.length === 0) {
+        body.innerHTML = '<div class="placeholder">No saved files yet.</div>';
+        return;
+    }
+    if (view === 'list') {
+        body.innerHTML = `
+            <ul class="file-list">
+                ${files.map(file => `
+                    <li class="file-item-row" data-filename="${escapeHtml(file.name)}" data-filetype="${file.type}" tabindex="0">
+                        <span class="file-icon">${file.type === 'document' ? '📝' : '🖼️'}</span>
+                        <div class="file-info">
+                            <div class="file-name">${escapeHtml(file.name)}</div>
+                            <div class="file-date">Modified: ${new Date((file.data as any).modified).toLocaleString()}</div>
+                        </div>
+                        <div class="file-actions">
+                            ${file.type === 'document' ? `<select class="export-file-select" data-filename="${escapeHtml(file.name)}" title="Export">${renderExportOptions()}</select>` : ''}
+                            <button class="history-file-btn" data-filename="${escapeHtml(file.name)}" data-filetype="${file.type}" title="Revision history">🕘</button>
+                            <button class="delete-file-btn" data-filename="${escapeHtml(file.name)}" data-filetype="${file.type}">Delete</button>
+                        </div>
+                    </li>
+                `).join('')}
+            </ul>
+        `;
+    } else {
+        body.innerHTML = `
+            <ul class="file-grid">
+                 ${files.map(file => `
+                    <li class="file-grid-item" data-filename="${escapeHtml(file.name)}" data-filetype="${file.type}" tabindex="0">
+                        <div class="file-thumbnail">
+                            ${file.type === 'image' ? renderImageTag((file.data as any).content, file.name) : '<span class="file-icon">📝</span>'}
+                        </div>
+                        <div class="file-name">${escapeHtml(file.name)}</div>
+                         <div class="file-actions">
+                            ${file.type === 'document' ? `<select class="export-file-select" data-filename="${escapeHtml(file.name)}" title="Export">${renderExportOptions()}</select>` : ''}
+                            <button class="history-file-btn" data-filename="${escapeHtml(file.name)}" data-filetype="${file.type}" title="Revision history">🕘</button>
+                            <button class="delete-file-btn" data-filename="${escapeHtml(file.name)}" data-filetype="${file.type}">Delete</button>
+                        </div>
+                    </li>
+                 `).join('')}
+            </ul>
+        `;
+    }
+    body.querySelectorAll('.file-item-row, .file-grid-item').forEach(item => {
+        item.addEventListener('click', async (e) => {
+            if ((e.target as HTMLElement).closest('.file-actions')) return;
+            const el = item as HTMLElement;
+            const filename = el.dataset.filename!;
+            const filetype = el.dataset.filetype!;
+            const allFiles = await getFiles();
+            if (!allFiles) return;
+            const fileData = allFiles[filetype === 'document' ? 'documents' : 'images'][filename];
+            if(filetype === 'document') {
+                openDocumentWriter({ name: filename, content: fileData.content });
+            } else {
+                openImageViewer(filename, fileData.content, fileData.vector);
+            }
+        });
+    });
+    body.querySelectorAll<HTMLSelectElement>('.export-file-select').forEach(select => {
+        select.addEventListener('change', () => {
+            const format = select.value;
+            select.value = '';
+            if (!format) return;
+            const filename = select.dataset.filename!;
+            exportDocument(filename, allFiles.documents[filename].content, format);
+        });
+    });
+    body.querySelectorAll<HTMLButtonElement>('.history-file-btn').forEach(btn => {
+        btn.addEventListener('click', () => {
+            body.dataset.historyName = btn.dataset.filename!;
+            body.dataset.historyType = btn.dataset.filetype === 'document' ? 'documents' : 'images';
+            renderExplorer(windowEl);
+        });
+    });
+     body.querySelectorAll('.delete-file-btn').forEach(btn => {
+        btn.addEventListener('click', async (e) => {
+            e.stopPropagation();
+            const el = btn as HTMLElement;
+            const filename = el.dataset.filename!;
+            const filetype = el.dataset.filetype!;
+            if (confirm(`Are you sure you want to delete "${filename}"?`)) {
+                await deleteFile(filetype, filename);
+                await renderExplorer(windowEl);
+            }
+        });
+    });
+};
+// Shows a saved file's revisions in the explorer, newest first, with compare and restore.
+const renderFileHistory = (windowEl: HTMLElement, type: 'documents' | 'images', name: string) => {
+    const body = windowEl.querySelector('.window-body') as HTMLElement;
+    const db = getDatabase();
+    const file = db.files[type][name] as StoredFile | undefined;
+    if (!file) {
+        delete body.dataset.historyName;
+        return renderExplorer(windowEl);
+    }
+    const versions = [toRevision(file), ...(file.revisions || [])];
+    const savedByLabel = (savedBy: SavedBy) => savedBy === 'assistant' ? '🤖 Assistant' : savedBy === 'autosave' ? '⏱️ Autosave' : '👤 You';
+    body.innerHTML = `
+        <div class="history-panel">
+            <div class="history-header">
+                <button class="history-back-btn">← Files</button>
+                <span class="history-title">🕘 ${escapeHtml(name)}</span>
+                <label class="history-limit">Keep <input type="number" class="history-limit-input" min="1" max="${MAX_REVISION_LIMIT}" value="${getRevisionLimit(db)}"> revisions</label>
             </div>
+            <ul class="history-list">
+                ${versions.map((version, index) => `
+                    <li class="history-item${index === 0 ? ' current' : ''}" data-index="${index}">
+                        <div class="history-info">
+                            <div class="history-date">${new Date(version.modified).toLocaleString()}</div>
+                            <div class="history-meta">${savedByLabel(version.savedBy)} · ${formatBytes(version.size)}${index === 0 ? ' · Current' : ''}</div>
+                        </div>
+                        ${index === 0 ? '' : `
+                            <div class="history-actions">
+                                <button class="history-compare-btn" data-index="${index}">Compare</button>
+                                <button class="history-restore-btn" data-index="${index}">Restore</button>
+                            </div>
+                        `}
+                    </li>
+                `).join('')}
+            </ul>
+            ${versions.length === 1 ? '<div class="placeholder">No earlier versions yet. Each save keeps the previous one here.</div>' : ''}
+            <div class="history-compare"></div>
         </div>
     `;
-    browserContent.querySelectorAll('.google-result').forEach(resultEl => {
-        resultEl.addEventListener('click', () => {
-            const index = parseInt((resultEl as HTMLElement).dataset.index!, 10);
-            renderPageView(windowEl, index);
+    const compareEl = body.querySelector('.history-compare') as HTMLElement;
+    const showComparison = (index: number) => {
+        body.querySelector('.history-item.selected')?.classList.remove('selected');
+        body.querySelector(`.history-item[data-index="${index}"]`)?.classList.add('selected');
+        const revision = versions[index];
+        compareEl.innerHTML = '';
+        compareEl.appendChild(type === 'images'
+            ? renderImageComparison(revision.content, file.content)
+            : renderSideBySideDiff(htmlToText(revision.content), htmlToText(file.content), [new Date(revision.modified).toLocaleString(), 'Current']));
+    };
+    if (versions.length > 1) showComparison(1);
+
+    body.querySelector('.history-back-btn')!.addEventListener('click', () => {
+        delete body.dataset.historyName;
+        renderExplorer(windowEl);
+    });
+    body.querySelector('.history-limit-input')!.addEventListener('change', (e) => {
+        const input = e.target as HTMLInputElement;
+        const limit = Math.max(1, Math.min(MAX_REVISION_LIMIT, Math.round(Number(input.value)) || DEFAULT_REVISION_LIMIT));
+        setRevisionLimit(limit);
+        showToast(`Keeping the last ${limit} revisions of each file.`);
+        renderFileHistory(windowEl, type, name);
+    });
+    body.querySelectorAll<HTMLButtonElement>('.history-compare-btn').forEach(btn => {
+        btn.addEventListener('click', () => showComparison(Number(btn.dataset.index)));
+    });
+    body.querySelectorAll<HTMLButtonElement>('.history-restore-btn').forEach(btn => {
+        btn.addEventListener('click', async () => {
+            const revision = versions[Number(btn.dataset.index)];
+            if (!await saveFile(type, name, revision.content, 'user', revision.vector)) return;
+            refreshOpenFile(type, name, revision.content, revision.vector);
+            showToast(`Restored ${name} to the version from ${new Date(revision.modified).toLocaleString()}`);
+            renderFileHistory(windowEl, type, name);
         });
     });
 };
-const renderPageView = (windowEl: HTMLElement, sourceIndex: number) => {
-    const state = browserState.get(windowEl);
-    if (!state) return;
-    const { sources, summary } = state;
-    const source = sources[sourceIndex];
-    if (!source) return;
-    const browserContent = windowEl.querySelector('.browser-content')!;
-    browserContent.innerHTML = `
-        <div class="browser-page-view">
-            <button class="back-button">&larr; Back to Results</button>
-            <header class="page-header">
-                <h2>${source.web?.title || 'Untitled'}</h2>
-                <a href="${source.web?.uri}" target="_blank">${source.web?.uri}</a>
-            </header>
-            <div class="page-content">
-                <h3>Summary</h3>
-                <p>${summary.replace(/\n/g, '<br>')}</p>
+const openFileExplorer = async (): Promise<HTMLElement> => {
+    let windowEl = openWindows.get('explorer');
+    if (windowEl) {
+        setActiveWindow(windowEl);
+        await renderExplorer(windowEl);
+        return windowEl;
+    }
+    windowEl = createAppWindow('📁 File Explorer', '', 'explorer', true);
+    openWindows.set('explorer', windowEl);
+    const header = windowEl.querySelector('.window-header')!;
+    const viewControls = document.createElement('div');
+    viewControls.className = 'view-controls';
+    viewControls.innerHTML = `
+        <button class="view-toggle list active" data-view="list" title="List View">📄</button>
+        <button class="view-toggle grid" data-view="grid" title="Grid View">🖼️</button>
+        <button class="import-btn" title="Import .md, .txt or .html files">📥</button>
+    `;
+    header.prepend(viewControls);
+    const body = windowEl.querySelector('.window-body')! as HTMLElement;
+    body.dataset.view = 'list';
+    await renderExplorer(windowEl);
+    viewControls.querySelector('.import-btn')!.addEventListener('click', importDocuments);
+    viewControls.querySelectorAll('.view-toggle').forEach(btn => {
+        btn.addEventListener('click', async () => {
+            const view = (btn as HTMLElement).dataset.view!;
+            body.dataset.view = view;
+            delete body.dataset.historyName;
+            viewControls.querySelector('.active')?.classList.remove('active');
+            btn.classList.add('active');
+            await renderExplorer(windowEl!);
+        });
+    });
+    return windowEl;
+};
+const createAppWindow = (title: string, content: string, app: string, noPadding = false) => {
+    const windowEl = document.createElement('div');
+    windowEl.className = 'app-window';
+    windowEl.style.zIndex = String(windowZIndex++);
+    windowEl.dataset.app = app;
+    windowEl.id = `window-${app}-${Date.now()}`;
+    windowEl.innerHTML = `
+        <header class="window-header">
+            <span class="window-title">${escapeHtml(title)}</span>
+            <div class="window-controls">
+                <button class="minimize-btn" title="Minimize">&#x2013;</button>
+                <button class="maximize-btn" title="Maximize/Restore">&#x26F6;</button>
+                <button class="close-btn" title="Close Window">&times;</button>
             </div>
-        </div>
+        </header>
+        <div class="window-body ${noPadding ? 'no-padding' : ''}">${content}</div>
     `;
-    browserContent.querySelector('.back-button')?.addEventListener('click', () => {
-        renderSearchResults(windowEl);
+    desktop.appendChild(windowEl);
+    setActiveWindow(windowEl);
+    makeDraggable(windowEl);
+    makeResizable(windowEl);
+    windowEl.querySelector('.close-btn')?.addEventListener('click', async () => {
+        if (await confirmUnsavedChanges([windowEl], 'closing')) closeWindow(windowEl);
+    });
+    windowEl.querySelector('.minimize-btn')?.addEventListener('click', () => minimizeWindow(windowEl));
+    windowEl.querySelector('.maximize-btn')?.addEventListener('click', () => toggleMaximize(windowEl));
+    windowEl.addEventListener('mousedown', () => setActiveWindow(windowEl));
+    const desktopRect = desktop.getBoundingClientRect();
+    const maxX = desktopRect.width - windowEl.offsetWidth - 20;
+    const maxY = desktopRect.height - windowEl.offsetHeight - 20;
+    windowEl.style.left = `${Math.random() * (maxX - 50) + 50}px`;
+    windowEl.style.top = `${Math.random() * (maxY - 50) + 50}px`;
+    return windowEl;
+};
+const setActiveWindow = (windowEl: HTMLElement) => {
+    if (windowEl.classList.contains('minimized')) {
+        windowEl.classList.remove('minimized');
+        // Restoring one window by hand ends "show desktop".
+        desktopShownWindows = null;
+    }
+    renderTaskbar();
+    if (activeWindow === windowEl) return;
+    activeWindow = windowEl;
+    document.querySelectorAll('.app-window').forEach(win => {
+        if (win === windowEl) {
+            (win as HTMLElement).style.zIndex = String(windowZIndex++);
+            (win as HTMLElement).style.boxShadow = '0 10px 30px rgba(0, 0, 0, 0.5)';
+        } else {
+            (win as HTMLElement).style.boxShadow = '0 5px 15px rgba(0, 0, 0, 0.3)';
+        }
+    });
+};
+const closeWindow = (windowEl: HTMLElement) => {
+    windowEl.remove();
+    for (const [key, value] of openWindows.entries()) {
+        if (value === windowEl) {
+            openWindows.delete(key);
+            break;
+        }
+    }
+    openFiles.delete(windowEl);
+    browserState.delete(windowEl);
+    doodleState.delete(windowEl);
+    studioState.delete(windowEl);
+    if (activeWindow === windowEl) activeWindow = null;
+    renderTaskbar();
+};
+const setWindowTitle = (windowEl: HTMLElement, title: string) => {
+    windowEl.querySelector('.window-title')!.textContent = title;
+    renderTaskbar();
+};
+// Remembers the window's current geometry so maximize or snap can be undone.
+const storeRestoreRect = (windowEl: HTMLElement) => {
+    const rect = windowEl.getBoundingClientRect();
+    const desktopRect = desktop.getBoundingClientRect();
+    windowEl.dataset.restoreTop = `${rect.top - desktopRect.top}px`;
+    windowEl.dataset.restoreLeft = `${rect.left - desktopRect.left}px`;
+    windowEl.dataset.restoreWidth = `${rect.width}px`;
+    windowEl.dataset.restoreHeight = `${rect.height}px`;
+};
+const toggleMaximize = (windowEl: HTMLElement) => {
+    if (windowEl.classList.contains('maximized')) {
+        windowEl.classList.remove('maximized');
+        windowEl.style.top = windowEl.dataset.restoreTop || '';
+        windowEl.style.left = windowEl.dataset.restoreLeft || '';
+        windowEl.style.width = windowEl.dataset.restoreWidth || '';
+        windowEl.style.height = windowEl.dataset.restoreHeight || '';
+    } else {
+        if (!windowEl.dataset.snapped) storeRestoreRect(windowEl);
+        delete windowEl.dataset.snapped;
+        windowEl.classList.add('maximized');
+        windowEl.style.top = '';
+        windowEl.style.left = '';
+        windowEl.style.width = '';
+        windowEl.style.height = '';
+    }
+};
+const minimizeWindow = (windowEl: HTMLElement) => {
+    windowEl.classList.add('minimized');
+    if (activeWindow === windowEl) {
+        activeWindow = null;
+        // Hand focus to the topmost window that is still visible.
+        const next = Array.from(openWindows.values())
+            .filter(win => !win.classList.contains('minimized'))
+            .sort((a, b) => parseInt(b.style.zIndex) - parseInt(a.style.zIndex))[0];
+        if (next) setActiveWindow(next);
+    }
+    renderTaskbar();
+};
+/** Resolves a selector (for the window or anything inside it) to an open app window. */
+const getWindowBySelector = (selector: string): HTMLElement => {
+    const el = document.querySelector(selector);
+    const windowEl = el?.closest('.app-window') as HTMLElement | null;
+    if (!windowEl || !Array.from(openWindows.values()).includes(windowEl)) {
+        throw new Error(`No open window matches "${selector}".`);
+    }
+    return windowEl;
+};
+const MIN_WINDOW_WIDTH = 300;
+const MIN_WINDOW_HEIGHT = 200;
+/** Moves and resizes a window, clamped to the desktop. Leaves maximized and snapped states. */
+const setWindowRect = (windowEl: HTMLElement, left: number, top: number, width: number, height: number) => {
+    const desktopRect = desktop.getBoundingClientRect();
+    windowEl.classList.remove('maximized');
+    delete windowEl.dataset.snapped;
+    width = Math.max(MIN_WINDOW_WIDTH, Math.min(width, desktopRect.width));
+    height = Math.max(MIN_WINDOW_HEIGHT, Math.min(height, desktopRect.height));
+    windowEl.style.width = `${Math.round(width)}px`;
+    windowEl.style.height = `${Math.round(height)}px`;
+    windowEl.style.left = `${Math.round(Math.max(0, Math.min(left, desktopRect.width - width)))}px`;
+    windowEl.style.top = `${Math.round(Math.max(0, Math.min(top, desktopRect.height - height)))}px`;
+};
+type SnapZone = 'left' | 'right' | 'top';
+const snapWindow = (windowEl: HTMLElement, zone: SnapZone) => {
+    if (zone === 'top') {
+        if (!windowEl.classList.contains('maximized')) toggleMaximize(windowEl);
+        return;
+    }
+    if (!windowEl.dataset.snapped) storeRestoreRect(windowEl);
+    const desktopRect = desktop.getBoundingClientRect();
+    const half = desktopRect.width / 2;
+    setWindowRect(windowEl, zone === 'left' ? 0 : half, 0, half, desktopRect.height);
+    windowEl.dataset.snapped = zone;
+};
+type TileLayout = 'side-by-side' | 'grid' | 'cascade';
+const tileWindows = (layout: TileLayout) => {
+    const windows = Array.from(openWindows.values())
+        .filter(win => !win.classList.contains('minimized'))
+        .sort((a, b) => parseInt(a.style.zIndex) - parseInt(b.style.zIndex));
+    if (windows.length === 0) return;
+    const { width, height } = desktop.getBoundingClientRect();
+    windows.forEach((win, index) => {
+        if (layout === 'cascade') {
+            const offset = 30 * index;
+            setWindowRect(win, 20 + offset, 20 + offset, width * 0.6, height * 0.6);
+        } else {
+            const cols = layout === 'side-by-side' ? windows.length : Math.ceil(Math.sqrt(windows.length));
+            const rows = Math.ceil(windows.length / cols);
+            const cellWidth = width / cols;
+            const cellHeight = height / rows;
+            setWindowRect(win, (index % cols) * cellWidth, Math.floor(index / cols) * cellHeight, cellWidth, cellHeight);
+        }
+    });
+    setActiveWindow(windows[windows.length - 1]);
+};
+const RESIZE_DIRECTIONS = ['n', 's', 'e', 'w', 'ne', 'nw', 'se', 'sw'];
+const makeResizable = (windowEl: HTMLElement) => {
+    for (const direction of RESIZE_DIRECTIONS) {
+        const handle = document.createElement('div');
+        handle.className = `resize-handle resize-${direction}`;
+        handle.dataset.direction = direction;
+        windowEl.appendChild(handle);
+    }
+    windowEl.addEventListener('mousedown', (e) => {
+        const handle = (e.target as HTMLElement).closest('.resize-handle') as HTMLElement | null;
+        if (!handle || windowEl.classList.contains('maximized')) return;
+        e.preventDefault();
+        const direction = handle.dataset.direction!;
+        const desktopRect = desktop.getBoundingClientRect();
+        const start = windowEl.getBoundingClientRect();
+        const startX = e.clientX;
+        const startY = e.clientY;
+        windowEl.classList.add('interacting');
+        const onMove = (moveEvent: MouseEvent) => {
+            const dx = moveEvent.clientX - startX;
+            const dy = moveEvent.clientY - startY;
+            let left = start.left - desktopRect.left;
+            let top = start.top - desktopRect.top;
+            let width = start.width;
+            let height = start.height;
+            if (direction.includes('e')) width = Math.min(start.width + dx, desktopRect.width - left);
+            if (direction.includes('s')) height = Math.min(start.height + dy, desktopRect.height - top);
+            if (direction.includes('w')) {
+                width = Math.max(MIN_WINDOW_WIDTH, start.width - Math.max(dx, -left));
+                left = start.right - desktopRect.left - width;
+            }
+            if (direction.includes('n')) {
+                height = Math.max(MIN_WINDOW_HEIGHT, start.height - Math.max(dy, -top));
+                top = start.bottom - desktopRect.top - height;
+            }
+            setWindowRect(windowEl, left, top, width, height);
+        };
+        const onUp = () => {
+            windowEl.classList.remove('interacting');
+            document.removeEventListener('mousemove', onMove);
+            document.removeEventListener('mouseup', onUp);
+            const selector = getStableSelector(windowEl);
+            if (selector) {
+                const rect = windowEl.getBoundingClientRect();
+                recordMacroStep({ action: 'resize_window', selector, width: Math.round(rect.width), height: Math.round(rect.height) });
+                // Dragging the top or left edge also moves the window.
+                if (/[nw]/.test(direction)) recordWindowDrag(windowEl);
+            }
+        };
+        document.addEventListener('mousemove', onMove);
+        document.addEventListener('mouseup', onUp);
+    });
+};
+const SNAP_EDGE_DISTANCE = 12;
+let snapPreview: HTMLElement | null = null;
+const showSnapPreview = (zone: SnapZone | null) => {
+    if (!snapPreview) {
+        snapPreview = document.createElement('div');
+        snapPreview.id = 'snap-preview';
+        desktop.appendChild(snapPreview);
+    }
+    snapPreview.className = zone ? `visible ${zone}` : '';
+};
+const makeDraggable = (el: HTMLElement) => {
+    let pos1 = 0, pos2 = 0, pos3 = 0, pos4 = 0;
+    let moved = false;
+    let snapZone: SnapZone | null = null;
+    // Only desktop windows snap; the debug console floats over the whole page.
+    const canSnap = desktop.contains(el);
+    const header = el.querySelector('.window-header') as HTMLElement;
+    if (header) {
+        header.onmousedown = dragMouseDown;
+    }
+    function dragMouseDown(e: MouseEvent) {
+        if ((e.target as HTMLElement).closest('button')) return;
+        if (el.classList.contains('maximized')) return;
+        e.preventDefault();
+        pos3 = e.clientX;
+        pos4 = e.clientY;
+        moved = false;
+        snapZone = null;
+        el.classList.add('interacting');
+        if (el.dataset.snapped) {
+            // Pulling a snapped window away restores its previous size under the pointer.
+            const desktopRect = desktop.getBoundingClientRect();
+            const restoreWidth = parseFloat(el.dataset.restoreWidth || '') || el.offsetWidth;
+            el.style.width = el.dataset.restoreWidth || '';
+            el.style.height = el.dataset.restoreHeight || '';
+            el.style.left = `${Math.max(0, e.clientX - desktopRect.left - restoreWidth / 2)}px`;
+            delete el.dataset.snapped;
+        }
+        document.onmouseup = closeDragElement;
+        document.onmousemove = elementDrag;
+    }
+    function elementDrag(e: MouseEvent) {
+        if (el.classList.contains('maximized')) return;
+        e.preventDefault();
+        pos1 = pos3 - e.clientX;
+        pos2 = pos4 - e.clientY;
+        pos3 = e.clientX;
+        pos4 = e.clientY;
+        let newTop = el.offsetTop - pos2;
+        let newLeft = el.offsetLeft - pos1;
+        const desktopRect = desktop.getBoundingClientRect();
+        newLeft = Math.max(0, Math.min(newLeft, desktopRect.width - el.offsetWidth));
+        newTop = Math.max(0, Math.min(newTop, desktopRect.height - el.offsetHeight));
+        el.style.top = newTop + "px";
+        el.style.left = newLeft + "px";
+        moved = true;
+        if (canSnap) {
+            const pointerX = e.clientX - desktopRect.left;
+            const pointerY = e.clientY - desktopRect.top;
+            snapZone = pointerX <= SNAP_EDGE_DISTANCE ? 'left'
+                : pointerX >= desktopRect.width - SNAP_EDGE_DISTANCE ? 'right'
+                : pointerY <= SNAP_EDGE_DISTANCE ? 'top'
+                : null;
+            showSnapPreview(snapZone);
+        }
+    }
+    function closeDragElement() {
+        document.onmouseup = null;
+        document.onmousemove = null;
+        el.classList.remove('interacting');
+        if (snapZone) {
+            showSnapPreview(null);
+            snapWindow(el, snapZone);
+        }
+        if (moved) recordWindowDrag(el);
+    }
+};
+const showToast = (message: string) => {
+    document.body.dataset.toastMessage = message;
+    document.body.classList.add('show-toast');
+    setTimeout(() => {
+        document.body.classList.remove('show-toast');
+    }, 3000);
+};
+
+// --- Taskbar & Window Switcher ---
+// Windows restored by the next "show desktop" click; null when the desktop isn't being shown.
+let desktopShownWindows: HTMLElement[] | null = null;
+let taskbarRenderPending = false;
+let switcherWindows: HTMLElement[] = [];
+let switcherIndex = 0;
+
+const getWindowTitle = (windowEl: HTMLElement) => windowEl.querySelector('.window-title')?.textContent || 'Untitled';
+
+// Most recently active first. Activating a window raises its z-index, so stacking order doubles as recency.
+const getWindowsByRecency = () => Array.from(openWindows.values())
+    .sort((a, b) => parseInt(b.style.zIndex) - parseInt(a.style.zIndex));
+
+// Apps register their window in `openWindows` after `createAppWindow` returns,
+// so rendering waits until the current task is done.
+const renderTaskbar = () => {
+    if (taskbarRenderPending) return;
+    taskbarRenderPending = true;
+    queueMicrotask(() => {
+        taskbarRenderPending = false;
+        taskbarItems.innerHTML = '';
+        for (const win of openWindows.values()) {
+            const minimized = win.classList.contains('minimized');
+            const item = document.createElement('button');
+            item.className = 'taskbar-item';
+            item.id = `taskbar-${win.id}`;
+            item.textContent = `${getWindowTitle(win)}${isWindowDirty(win) ? ' •' : ''}`;
+            item.title = minimized ? 'Restore' : win === activeWindow ? 'Minimize' : 'Bring to front';
+            item.classList.toggle('active', win === activeWindow && !minimized);
+            item.classList.toggle('minimized', minimized);
+            item.addEventListener('click', () => {
+                if (win === activeWindow && !minimized) {
+                    minimizeWindow(win);
+                } else {
+                    setActiveWindow(win);
+                }
+            });
+            taskbarItems.appendChild(item);
+        }
+        showDesktopButton.classList.toggle('active', !!desktopShownWindows);
+    });
+};
+
+const toggleShowDesktop = () => {
+    if (desktopShownWindows) {
+        const windows = desktopShownWindows.filter(win => Array.from(openWindows.values()).includes(win));
+        desktopShownWindows = null;
+        // Re-activate from the bottom up so the stacking order comes back as it was.
+        windows.forEach(win => setActiveWindow(win));
+    } else {
+        const visible = getWindowsByRecency().filter(win => !win.classList.contains('minimized')).reverse();
+        if (visible.length === 0) return;
+        visible.forEach(minimizeWindow);
+        desktopShownWindows = visible;
+    }
+    renderTaskbar();
+};
+
+const renderWindowSwitcher = () => {
+    windowSwitcher.innerHTML = '';
+    switcherWindows.forEach((win, index) => {
+        const option = document.createElement('div');
+        option.className = 'switcher-item';
+        option.setAttribute('role', 'option');
+        option.setAttribute('aria-selected', String(index === switcherIndex));
+        option.classList.toggle('selected', index === switcherIndex);
+        option.classList.toggle('minimized', win.classList.contains('minimized'));
+        option.textContent = getWindowTitle(win);
+        windowSwitcher.appendChild(option);
     });
 };
-const useDoodlePad = async (lines: [number, number][][]) => {
-    let windowEl: HTMLElement | null = openWindows.get('doodle') || null;
-    if (!windowEl) {
-        windowEl = await openAppViaIcon('doodle', '#icon-doodle');
-        if (!windowEl) {
-            addMessage('assistant', "I couldn't open the Doodle Pad.");
-            return;
+
+const isWindowSwitcherOpen = () => !windowSwitcher.classList.contains('hidden');
+
+// Each press moves the highlight; releasing Alt activates the highlighted window.
+const cycleWindowSwitcher = (backwards: boolean) => {
+    if (!isWindowSwitcherOpen()) {
+        switcherWindows = getWindowsByRecency();
+        if (switcherWindows.length === 0) return;
+        switcherIndex = 0;
+        windowSwitcher.classList.remove('hidden');
+    }
+    const count = switcherWindows.length;
+    switcherIndex = (switcherIndex + (backwards ? count - 1 : 1)) % count;
+    renderWindowSwitcher();
+};
+
+const closeWindowSwitcher = (activate: boolean) => {
+    if (!isWindowSwitcherOpen()) return;
+    windowSwitcher.classList.add('hidden');
+    const win = switcherWindows[switcherIndex];
+    switcherWindows = [];
+    if (activate && win && Array.from(openWindows.values()).includes(win)) setActiveWindow(win);
+};
+
+// --- Macro Recorder ---
+// Records the user's own desktop interactions as an action sequence that can be
+// replayed through `executeActionSequence`. Selectors are scoped by app rather
+// than by window ID, since window IDs change every time a window is opened.
+interface Macro { sequence: Action[], created: number }
+let macroRecording: { steps: Action[], pendingText: { selector: string, text: string } | null } | null = null;
+
+const getMacros = (): Record<string, Macro> => getDatabase().macros || {};
+
+const isRecordingUserInput = () => !!macroRecording && !currentRun;
+
+/** Builds a selector for `el` that will still match after the window is reopened, or null if there isn't one. */
+const getStableSelector = (el: Element): string | null => {
+    const icon = el.closest('#desktop-icons .icon');
+    if (icon) return `#${icon.id}`;
+    const windowEl = el.closest('.app-window') as HTMLElement | null;
+    if (!windowEl?.dataset.app || !Array.from(openWindows.values()).includes(windowEl)) return null;
+    const scope = `.app-window[data-app="${windowEl.dataset.app}"]`;
+    if (el === windowEl) return scope;
+    const resultEl = el.closest('.google-result') as HTMLElement | null;
+    if (resultEl) return `${scope} .google-result[data-index="${resultEl.dataset.index}"]`;
+    const fileEl = el.closest('.file-item-row, .file-grid-item') as HTMLElement | null;
+    if (fileEl && !el.closest('button')) return `${scope} .${fileEl.classList[0]}[data-filename="${CSS.escape(fileEl.dataset.filename!)}"]`;
+    const target = el.closest('button, input, textarea, .window-body') as HTMLElement | null;
+    if (!target || !target.classList[0]) return null;
+    const view = target.dataset.view ? `[data-view="${target.dataset.view}"]` : '';
+    return `${scope} .${target.classList[0]}${view}`;
+};
+
+const updateRecordButton = () => {
+    const count = macroRecording ? macroRecording.steps.length + (macroRecording.pendingText ? 1 : 0) : 0;
+    recordMacroButton.textContent = macroRecording ? `⏹ Stop recording (${count})` : '⏺ Record';
+    recordMacroButton.classList.toggle('recording', !!macroRecording);
+};
+
+const flushRecordedText = (enter = false) => {
+    if (!macroRecording?.pendingText) return;
+    const { text } = macroRecording.pendingText;
+    macroRecording.pendingText = null;
+    // Typing that was all backspaced away again leaves nothing to replay.
+    if (!text && !enter) return;
+    macroRecording.steps.push(enter ? { action: 'type', text, enter: true } : { action: 'type', text });
+};
+
+const recordMacroStep = (...steps: Action[]) => {
+    if (!isRecordingUserInput()) return;
+    flushRecordedText();
+    macroRecording!.steps.push(...steps);
+    updateRecordButton();
+};
+
+const recordClick = (target: Element) => {
+    const selector = getStableSelector(target);
+    // Saves, formatting and the browser's tab, back, bookmark and clip buttons are recorded by their
+    // handlers as actions (saves as filenames rather than dialog clicks). Searching a document changes
+    // nothing worth replaying, the browser home page's links depend on the user's own lists, and the
+    // Doodle Pad's palette only affects strokes, which aren't recorded.
+    if (!selector || target.closest('.save-btn, .doc-toolbar, .doc-find-bar, .browser-tabs, .browser-back-btn, .back-button, .bookmark-btn, .clip-btn, .browser-homepage, .doodle-toolbar, .image-studio-form, .image-gallery, .image-history')) return;
+    recordMacroStep({ action: 'move_mouse_to_element', selector }, { action: 'click' });
+};
+
+/**
+ * The character offsets (as `select_text` counts them) that a delete is about to remove. Only valid
+ * during `beforeinput`; null when the browser doesn't say and the extent can't be worked out.
+ */
+const getDeletedSpan = (e: InputEvent, target: HTMLElement): { start: number, end: number } | null => {
+    if (isTextField(target)) {
+        const { value } = target;
+        const start = target.selectionStart ?? value.length;
+        const end = target.selectionEnd ?? start;
+        if (start !== end) return { start, end };
+        const before = value.slice(0, start);
+        const after = value.slice(start);
+        switch (e.inputType) {
+            case 'deleteContentBackward': return { start: Math.max(0, start - 1), end };
+            case 'deleteContentForward': return { start, end: Math.min(value.length, end + 1) };
+            case 'deleteWordBackward': return { start: start - /\S*\s*$/.exec(before)![0].length, end };
+            case 'deleteWordForward': return { start, end: end + /^\s*\S*/.exec(after)![0].length };
+            case 'deleteSoftLineBackward':
+            case 'deleteHardLineBackward': return { start: before.lastIndexOf('\n') + 1, end };
+            case 'deleteSoftLineForward':
+            case 'deleteHardLineForward': return { start, end: after.includes('\n') ? start + after.indexOf('\n') : value.length };
+            default: return null;
         }
     }
-    setActiveWindow(windowEl!);
-    const canvas = windowEl!.querySelector('canvas')!;
-    const ctx = canvas.getContext('2d')!;
-    for (const line of lines) {
-        if (line.length < 2) continue;
-        ctx.beginPath();
-        ctx.moveTo(line[0][0], line[0][1]);
-        for (let i = 1; i < line.length; i++) {
-            ctx.lineTo(line[i][0], line[i][1]);
-            ctx.stroke();
-            await sleep(10);
-        }
+    const [range] = e.getTargetRanges();
+    if (!range || !target.contains(range.startContainer) || !target.contains(range.endContainer)) return null;
+    const offsetOf = (node: Node, offset: number) => {
+        const prefix = document.createRange();
+        prefix.setStart(target, 0);
+        prefix.setEnd(node, offset);
+        return prefix.toString().length;
+    };
+    return { start: offsetOf(range.startContainer, range.startOffset), end: offsetOf(range.endContainer, range.endOffset) };
+};
+
+const hasCollapsedSelection = (target: HTMLElement): boolean =>
+    isTextField(target) ? target.selectionStart === target.selectionEnd : !!window.getSelection()?.isCollapsed;
+
+/**
+ * Records a delete as the steps that repeat it: a single character at the caret as Backspace or
+ * Delete, anything else (a selection, word, line or cut) as selecting it and then deleting or
+ * cutting the selection. Backspacing over text typed since the last step takes it out of that step.
+ */
+const recordDeletion = (e: InputEvent, target: HTMLElement, selector: string) => {
+    const span = getDeletedSpan(e, target);
+    const singleCharacter = e.inputType !== 'deleteByCut' && hasCollapsedSelection(target) && (!span || span.end - span.start <= 1);
+    const pending = macroRecording!.pendingText;
+    if (singleCharacter && e.inputType === 'deleteContentBackward' && pending?.selector === selector && pending.text) {
+        pending.text = pending.text.slice(0, -1);
+        updateRecordButton();
+        return;
     }
+    if (singleCharacter) {
+        recordMacroStep({ action: 'press_key', key: e.inputType.endsWith('Forward') ? 'Delete' : 'Backspace' });
+        return;
+    }
+    const deleteStep: Action = e.inputType === 'deleteByCut' ? { action: 'key_combo', keys: 'Ctrl+X' } : { action: 'press_key', key: 'Backspace' };
+    recordMacroStep(...(span ? [{ action: 'select_text', selector, start: span.start, end: span.end } as Action] : []), deleteStep);
 };
-const openDoodlePad = (file: { name: string, content: string } | null = null): HTMLElement => {
-    if (file) {
-        for (const [win, fileInfo] of openFiles.entries()) {
-            if (fileInfo.type === 'doodle' && fileInfo.name === file.name) {
-                setActiveWindow(win);
-                return win;
-            }
-        }
+
+const recordTextInput = (e: InputEvent) => {
+    if (!isRecordingUserInput()) return;
+    const target = e.target as HTMLElement;
+    const selector = getStableSelector(target);
+    if (!selector || target.closest('.doc-find-bar')) return;
+    if (e.inputType.startsWith('delete')) {
+        recordDeletion(e, target, selector);
+        return;
     }
-    const windowTitle = file ? `🎨 ${file.name}` : '🎨 Doodle Pad';
-    const windowEl = createAppWindow(windowTitle, '', 'doodle', true);
-    openWindows.set('doodle', windowEl);
-    const body = windowEl.querySelector('.window-body')!;
-    const canvas = document.createElement('canvas');
-    canvas.width = 400;
-    canvas.height = 400;
-    body.appendChild(canvas);
-    const ctx = canvas.getContext('2d')!;
-    ctx.strokeStyle = '#000';
-    ctx.lineWidth = 2;
-    ctx.lineCap = 'round';
-    if (file && file.content) {
-        const img = new Image();
-        img.onload = () => ctx.drawImage(img, 0, 0);
-        img.src = file.content;
-        openFiles.set(windowEl, { type: 'doodle', name: file.name });
+    if (macroRecording!.pendingText?.selector !== selector) {
+        flushRecordedText();
+        macroRecording!.pendingText = { selector, text: '' };
     }
-    let isDrawing = false;
-    let lastX = 0;
-    let lastY = 0;
-    const draw = (e: MouseEvent) => {
-        if (!isDrawing) return;
-        ctx.beginPath();
-        ctx.moveTo(lastX, lastY);
-        ctx.lineTo(e.offsetX, e.offsetY);
-        ctx.stroke();
-        [lastX, lastY] = [e.offsetX, e.offsetY];
-    };
-    canvas.addEventListener('mousedown', (e) => {
-        isDrawing = true;
-        [lastX, lastY] = [e.offsetX, e.offsetY];
-    });
-    canvas.addEventListener('mousemove', draw);
-    canvas.addEventListener('mouseup', () => isDrawing = false);
-    canvas.addEventListener('mouseout', () => isDrawing = false);
-    const controls = windowEl.querySelector('.window-controls')!;
-    const saveBtn = document.createElement('button');
-    saveBtn.className = 'save-btn';
-    saveBtn.innerHTML = '💾';
-    saveBtn.title = 'Save Doodle';
-    controls.prepend(saveBtn);
-    saveBtn.addEventListener('click', async () => {
-        let currentFilename = openFiles.get(windowEl)?.name;
-        let saveAsName = currentFilename || prompt("Save as:", currentFilename || "doodle.png");
-        if (saveAsName) {
-            const dataUrl = canvas.toDataURL('image/png');
-            await saveFile('images', saveAsName, dataUrl);
-            openFiles.set(windowEl, { type: 'doodle', name: saveAsName });
-            windowEl.querySelector('.window-title')!.textContent = `🎨 ${saveAsName}`;
-        }
+    const pending = macroRecording!.pendingText!;
+    if (e.inputType === 'insertText' || e.inputType === 'insertFromPaste') {
+        pending.text += e.data ?? e.dataTransfer?.getData('text/plain') ?? '';
+    } else if (e.inputType === 'insertLineBreak' || e.inputType === 'insertParagraph') {
+        pending.text += '\n';
+    }
+    updateRecordButton();
+};
+
+// Records where a window ended up, as the header-center point that `drag_window` expects.
+const recordWindowDrag = (windowEl: HTMLElement) => {
+    const selector = getStableSelector(windowEl);
+    const header = windowEl.querySelector('.window-header');
+    if (!selector || !header) return;
+    const headerRect = header.getBoundingClientRect();
+    const desktopRect = desktop.getBoundingClientRect();
+    recordMacroStep({
+        action: 'drag_window',
+        selector,
+        x: Math.round(headerRect.left - desktopRect.left + headerRect.width / 2),
+        y: Math.round(headerRect.top - desktopRect.top + headerRect.height / 2),
     });
-    return windowEl;
 };
-const useImageStudio = async (prompt: string) => {
-    let windowEl: HTMLElement | null = openWindows.get('studio') || null;
-    if (!windowEl) {
-        windowEl = await openAppViaIcon('studio', '#icon-studio');
-        if (!windowEl) {
-            addMessage('assistant', "I couldn't open the Image Studio.");
-            return;
-        }
+
+const startMacroRecording = () => {
+    if (currentRun) {
+        showToast("Wait for the assistant to finish before recording.");
+        return;
     }
-    setActiveWindow(windowEl);
-    const imageContainer = windowEl.querySelector('.image-container')!;
-    const promptDisplay = windowEl.querySelector('.image-prompt')!;
-    promptDisplay.textContent = `Prompt: "${prompt}"`;
-    imageContainer.innerHTML = `<div class="spinner"></div><p>Generating image...</p>`;
+    macroRecording = { steps: [], pendingText: null };
+    document.body.classList.add('recording-macro');
+    updateRecordButton();
+    showToast("Recording. Use the desktop as usual, then press Stop.");
+};
+
+const stopMacroRecording = () => {
+    if (!macroRecording) return;
+    flushRecordedText();
+    const { steps } = macroRecording;
+    macroRecording = null;
+    document.body.classList.remove('recording-macro');
+    updateRecordButton();
+    if (steps.length === 0) {
+        showToast("Nothing was recorded.");
+        return;
+    }
+    const name = prompt(`Name this macro (${steps.length} steps):`)?.trim();
+    if (!name) {
+        showToast("Recording discarded.");
+        return;
+    }
+    if (getMacros()[name] && !confirm(`A macro named "${name}" already exists. Replace it?`)) return;
+    const db = getDatabase();
+    db.macros = { ...db.macros, [name]: { sequence: steps, created: Date.now() } };
+    saveDatabase(db);
+    updateStorageIndicator();
+    showToast(`Saved macro "${name}".`);
+};
+
+const deleteMacro = (name: string) => {
+    const db = getDatabase();
+    delete db.macros?.[name];
+    saveDatabase(db);
+    updateStorageIndicator();
+};
+
+// Replays a macro from the macro library as its own run, so it can be paused or stopped.
+const runMacro = async (name: string) => {
+    const macro = getMacros()[name];
+    if (!macro) return;
+    if (currentRun) {
+        showToast("The assistant is busy. Try again when it's done.");
+        return;
+    }
+    addMessage('assistant', `Running macro "${name}"...`);
+    sendButton.disabled = true;
+    beginRun();
     try {
-        if (aiInitializationError) throw new Error(aiInitializationError);
-        const response = await ai.models.generateImages({
-            model: 'imagen-4.0-generate-001',
-            prompt: prompt,
-            config: { numberOfImages: 1, outputMimeType: 'image/jpeg' },
-        });
-        const base64ImageBytes = response.generatedImages?.[0]?.image.imageBytes || null;
+        const report = await executeActionSequence(macro.sequence);
+        if (report.cancelled) addMessage('assistant', 'Stopped.');
+    } finally {
+        endRun();
+        sendButton.disabled = chatInput.value.trim() === '' || isTestingMode;
+    }
+};
 
-        if (base64ImageBytes) {
-            const imageUrl = `data:image/jpeg;base64,${base64ImageBytes}`;
-            imageContainer.innerHTML = `<img src="${imageUrl}" alt="${prompt}">`;
-            clipboard = { type: 'image', data: imageUrl };
-            showToast('Image generated and copied to clipboard.');
-        } else {
-             imageContainer.innerHTML = `<p class="error">Couldn't generate an image for that prompt.</p>`;
-        }
-    } catch (error) {
-        console.error("Image generation error:", error);
-        imageContainer.innerHTML = `<p class="error">An error occurred during image generation.</p>`;
+const renderMacrosModal = () => {
+    const macros = Object.entries(getMacros()).sort((a, b) => b[1].created - a[1].created);
+    macrosList.innerHTML = '';
+    if (macros.length === 0) {
+        macrosList.innerHTML = '<li>No macros yet. Press ⏺ Record to create one.</li>';
+        return;
+    }
+    for (const [name, macro] of macros) {
+        const item = document.createElement('li');
+        item.className = 'session-item';
+        const label = document.createElement('span');
+        label.className = 'session-item-date';
+        label.textContent = `${name} (${macro.sequence.length} steps)`;
+        label.title = `Recorded ${new Date(macro.created).toLocaleString()}`;
+        const actions = document.createElement('div');
+        actions.className = 'session-item-actions';
+        actions.innerHTML = `
+            <button class="load-session-btn run-macro-btn">Run</button>
+            <button class="delete-session-btn delete-macro-btn">Delete</button>
+        `;
+        actions.querySelectorAll('button').forEach(btn => btn.dataset.macro = name);
+        item.append(label, actions);
+        macrosList.appendChild(item);
     }
 };
-const openImageStudio = (): HTMLElement => {
-    if(openWindows.has('studio')) {
-        const win = openWindows.get('studio')!;
-        setActiveWindow(win);
-        return win;
+
+// --- Document Text & Diffs ---
+
+const BLOCK_TAGS = new Set(['DIV', 'P', 'LI', 'H1', 'H2', 'H3', 'H4', 'H5', 'H6', 'BLOCKQUOTE', 'PRE', 'TR']);
+
+/** Extracts readable text from document HTML, keeping line breaks. Parsing with DOMParser never runs scripts. */
+const htmlToText = (html: string): string => {
+    const doc = new DOMParser().parseFromString(html, 'text/html');
+    let text = '';
+    const walk = (node: Node) => {
+        if (node.nodeType === Node.TEXT_NODE) {
+            text += node.textContent;
+            return;
+        }
+        if (node.nodeName === 'BR') {
+            text += '\n';
+            return;
+        }
+        if (node.nodeName === 'IMG') {
+            text += `[image: ${(node as HTMLImageElement).alt || 'untitled'}]`;
+            return;
+        }
+        const isBlock = BLOCK_TAGS.has(node.nodeName);
+        if (isBlock && text && !text.endsWith('\n')) text += '\n';
+        node.childNodes.forEach(walk);
+        if (isBlock && !text.endsWith('\n')) text += '\n';
+    };
+    doc.body.childNodes.forEach(walk);
+    return text.replace(/\n{3,}/g, '\n\n').trim();
+};
+
+type DiffLine = { type: 'same' | 'added' | 'removed', text: string };
+const MAX_DIFF_LINES = 400;
+
+/** Line-based LCS diff. Inputs beyond MAX_DIFF_LINES are compared as a single changed block. */
+const diffLines = (before: string, after: string): DiffLine[] => {
+    const a = before ? before.split('\n') : [];
+    const b = after ? after.split('\n') : [];
+    if (a.length > MAX_DIFF_LINES || b.length > MAX_DIFF_LINES) {
+        return [...a.map(text => ({ type: 'removed' as const, text })), ...b.map(text => ({ type: 'added' as const, text }))];
     }
-    const windowEl = createAppWindow('🖼️ Image Studio', '', 'studio');
-    openWindows.set('studio', windowEl);
-    const body = windowEl.querySelector('.window-body')!;
-    body.innerHTML = `
-        <div class="image-studio-content">
-            <div class="image-prompt">Enter a prompt via chat to generate an image.</div>
-            <div class="image-container">
-                 <div class="placeholder">
-                    <span>🖼️</span>
-                    <p>Generated image will appear here.</p>
-                </div>
-            </div>
-        </div>
-    `;
-    const controls = windowEl.querySelector('.window-controls')!;
-    const saveBtn = document.createElement('button');
-    saveBtn.className = 'save-btn';
-    saveBtn.innerHTML = '💾';
-    saveBtn.title = 'Save Image';
-    controls.prepend(saveBtn);
-    saveBtn.addEventListener('click', async () => {
-        const img = body.querySelector('.image-container img') as HTMLImageElement;
-        if (img) {
-            let currentFilename = openFiles.get(windowEl)?.name;
-            let saveAsName = currentFilename || prompt("Save as:", currentFilename || "image.png");
-             if (saveAsName) {
-                await saveFile('images', saveAsName, img.src);
-                openFiles.set(windowEl, { type: 'studio', name: saveAsName });
-                windowEl.querySelector('.window-title')!.textContent = `🖼️ ${saveAsName}`;
-            }
+    const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+    for (let i = a.length - 1; i >= 0; i--) {
+        for (let j = b.length - 1; j >= 0; j--) {
+            lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+        }
+    }
+    const result: DiffLine[] = [];
+    let i = 0, j = 0;
+    while (i < a.length && j < b.length) {
+        if (a[i] === b[j]) {
+            result.push({ type: 'same', text: a[i] });
+            i++;
+            j++;
+        } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+            result.push({ type: 'removed', text: a[i++] });
         } else {
-            showToast("There is no image to save.");
+            result.push({ type: 'added', text: b[j++] });
         }
-    });
-    return windowEl;
+    }
+    while (i < a.length) result.push({ type: 'removed', text: a[i++] });
+    while (j < b.length) result.push({ type: 'added', text: b[j++] });
+    return result;
 };
-const openImageViewer = (name: string, content: string) => {
-    for (const [win, fileInfo] of openFiles.entries()) {
-        if (['doodle', 'studio'].includes(fileInfo.type) && fileInfo.name === name) {
-            setActiveWindow(win);
-            return;
+
+const renderTextDiff = (before: string, after: string): HTMLElement => {
+    const diffEl = document.createElement('div');
+    diffEl.className = 'diff-view';
+    const lines = diffLines(before, after);
+    if (lines.every(line => line.type === 'same')) {
+        diffEl.textContent = 'No text changes.';
+        return diffEl;
+    }
+    for (const line of lines) {
+        const lineEl = document.createElement('div');
+        lineEl.className = `diff-line ${line.type}`;
+        lineEl.textContent = `${line.type === 'added' ? '+' : line.type === 'removed' ? '−' : ' '} ${line.text}`;
+        diffEl.appendChild(lineEl);
+    }
+    return diffEl;
+};
+
+/** Two-column diff; a run of removed lines is paired with the added lines that replace it. */
+const renderSideBySideDiff = (before: string, after: string, labels: [string, string]): HTMLElement => {
+    const diffEl = document.createElement('div');
+    diffEl.className = 'diff-side-by-side';
+    const addCell = (text: string | null, type: string) => {
+        const cell = document.createElement('div');
+        cell.className = `diff-cell ${text === null ? 'empty' : type}`;
+        cell.textContent = text ?? '';
+        diffEl.appendChild(cell);
+    };
+    labels.forEach(label => addCell(label, 'heading'));
+    const lines = diffLines(before, after);
+    for (let i = 0; i < lines.length;) {
+        if (lines[i].type === 'same') {
+            addCell(lines[i].text, 'same');
+            addCell(lines[i].text, 'same');
+            i++;
+            continue;
+        }
+        const removed: string[] = [];
+        const added: string[] = [];
+        for (; i < lines.length && lines[i].type === 'removed'; i++) removed.push(lines[i].text);
+        for (; i < lines.length && lines[i].type === 'added'; i++) added.push(lines[i].text);
+        for (let row = 0; row < Math.max(removed.length, added.length); row++) {
+            addCell(removed[row] ?? null, 'removed');
+            addCell(added[row] ?? null, 'added');
         }
     }
-    const isDoodle = name.toLowerCase().includes('doodle');
-    if (isDoodle) {
-        openDoodlePad({ name, content });
-    } else {
-        openImageStudioWithContent(name, content);
+    return diffEl;
+};
+
+const renderImageComparison = (before: string | null, after: string | null): HTMLElement => {
+    const compareEl = document.createElement('div');
+    compareEl.className = 'image-compare';
+    for (const [label, src] of [['Before', before], ['After', after]] as const) {
+        if (src === null) continue;
+        const figure = document.createElement('figure');
+        const img = document.createElement('img');
+        img.src = src;
+        img.alt = label;
+        const caption = document.createElement('figcaption');
+        caption.textContent = label;
+        figure.append(img, caption);
+        compareEl.appendChild(figure);
     }
+    return compareEl;
 };
-const openImageStudioWithContent = (name: string, content: string): HTMLElement => {
-    const windowEl = openImageStudio();
-    setActiveWindow(windowEl);
-    const imageContainer = windowEl.querySelector('.image-container')!;
-    const promptDisplay = windowEl.querySelector('.image-prompt')!;
-    promptDisplay.textContent = `Viewing: "${name}"`;
-    imageContainer.innerHTML = `<img src="${content}" alt="${name}">`;
-    openFiles.set(windowEl, { type: 'studio', name });
-    windowEl.querySelector('.window-title')!.textContent = `🖼️ ${name}`;
-    return windowEl;
+
+/** Shows what saving `after` over `before` would change. A null side means the file doesn't exist there. */
+const renderChangePreview = (type: 'documents' | 'images', before: string | null, after: string | null): HTMLElement => {
+    if (type === 'images') return renderImageComparison(before, after);
+    return renderTextDiff(before === null ? '' : htmlToText(before), after === null ? '' : htmlToText(after));
 };
-const renderExplorer = async (windowEl: HTMLElement) => {
-    const body = windowEl.querySelector('.window-body')! as HTMLElement;
-    const view = body.dataset.view || 'list';
-    const allFiles = await getFiles();
-    if (!allFiles) return;
 
-    const documents = Object.entries(allFiles.documents || {}).map(([name, data]) => ({ name, type: 'document', data }));
-    const images = Object.entries(allFiles.images || {}).map(([name, data]) => ({ name, type: 'image', data }));
-    
-    const files = [...documents, ...images].sort((a, b) => (b.data as any).modified - (a.data as any).modified);
+// --- Document Import & Export ---
+type ExportFormat = 'md' | 'html' | 'txt' | 'pdf';
+const EXPORT_FORMATS: Record<ExportFormat, string> = { md: 'Markdown', html: 'HTML', txt: 'Plain text', pdf: 'PDF (print)' };
+const IMPORT_EXTENSIONS = ['.md', '.markdown', '.txt', '.html', '.htm'];
 
-    if (files.length === 0) {
-        body.innerHTML = '<div class="placeholder">No saved files yet.</div>';
-        return;
+const stripExtension = (name: string) => name.replace(/\.(md|markdown|txt|html?|pdf)$/i, '') || 'document';
+
+const escapeMarkdown = (text: string) => text.replace(/([\\`*_[\]~])/g, '\\$1');
+
+const inlineToMarkdown = (node: Node): string => {
+    if (node.nodeType === Node.TEXT_NODE) return escapeMarkdown(node.textContent || '');
+    if (node.nodeType !== Node.ELEMENT_NODE) return '';
+    const el = node as HTMLElement;
+    const inner = () => Array.from(el.childNodes).map(inlineToMarkdown).join('');
+    switch (el.tagName) {
+        case 'STRONG': return `**${inner()}**`;
+        case 'EM': return `*${inner()}*`;
+        case 'S': return `~~${inner()}~~`;
+        // Markdown has no underline, but it allows inline HTML.
+        case 'U': return `<u>${inner()}</u>`;
+        case 'CODE': return `\`${el.textContent}\``;
+        case 'A': return `[${inner()}](${el.getAttribute('href')})`;
+        case 'IMG': return `![${escapeMarkdown(el.getAttribute('alt') || '')}](${el.getAttribute('src')})`;
+        case 'BR': return '  \n';
+        default: return inner();
     }
-    if (view === 'list') {
-        body.innerHTML = `
-            <ul class="file-list">
-                ${files.map(file => `
-                    <li class="file-item-row" data-filename="${file.name}" data-filetype="${file.type}" tabindex="0">
-                        <span class="file-icon">${file.type === 'document' ? '📝' : '🖼️'}</span>
-                        <div class="file-info">
-                            <div class="file-name">${file.name}</div>
-                            <div class="file-date">Modified: ${new Date((file.data as any).modified).toLocaleString()}</div>
-                        </div>
-                        <div class="file-actions">
-                            <button class="delete-file-btn" data-filename="${file.name}" data-filetype="${file.type}">Delete</button>
-                        </div>
-                    </li>
-                `).join('')}
-            </ul>
-        `;
-    } else {
-        body.innerHTML = `
-            <ul class="file-grid">
-                 ${files.map(file => `
-                    <li class="file-grid-item" data-filename="${file.name}" data-filetype="${file.type}" tabindex="0">
-                        <div class="file-thumbnail">
-                            ${file.type === 'image' ? `<img src="${(file.data as any).content}" alt="${file.name}">` : '<span class="file-icon">📝</span>'}
-                        </div>
-                        <div class="file-name">${file.name}</div>
-                         <div class="file-actions">
-                            <button class="delete-file-btn" data-filename="${file.name}" data-filetype="${file.type}">Delete</button>
-                        </div>
-                    </li>
-                 `).join('')}
-            </ul>
-        `;
+};
+
+const blockToMarkdown = (el: HTMLElement): string => {
+    const inline = () => Array.from(el.childNodes).map(inlineToMarkdown).join('').trim();
+    switch (el.tagName) {
+        case 'H1': case 'H2': case 'H3':
+            return `${'#'.repeat(Number(el.tagName[1]))} ${inline()}`;
+        case 'PRE':
+            return `\`\`\`\n${(el.textContent || '').replace(/\n$/, '')}\n\`\`\``;
+        case 'BLOCKQUOTE':
+            return childrenToMarkdown(el).split('\n').map(line => `> ${line}`.trimEnd()).join('\n');
+        case 'UL': case 'OL':
+            return Array.from(el.children).map((li, index) => {
+                const marker = el.tagName === 'OL' ? `${index + 1}. ` : '- ';
+                const content = childrenToMarkdown(li as HTMLElement, '\n').split('\n');
+                return marker + content.map((line, i) => i === 0 ? line : ' '.repeat(marker.length) + line).join('\n');
+            }).join('\n');
+        default:
+            return inline();
     }
-    body.querySelectorAll('.file-item-row, .file-grid-item').forEach(item => {
-        item.addEventListener('click', async (e) => {
-            if ((e.target as HTMLElement).classList.contains('delete-file-btn')) return;
-            const el = item as HTMLElement;
-            const filename = el.dataset.filename!;
-            const filetype = el.dataset.filetype!;
-            const allFiles = await getFiles();
-            if (!allFiles) return;
-            const fileData = allFiles[filetype === 'document' ? 'documents' : 'images'][filename];
-            if(filetype === 'document') {
-                openDocumentWriter({ name: filename, content: fileData.content });
-            } else {
-                openImageViewer(filename, fileData.content);
-            }
-        });
-    });
-     body.querySelectorAll('.delete-file-btn').forEach(btn => {
-        btn.addEventListener('click', async (e) => {
-            e.stopPropagation();
-            const el = btn as HTMLElement;
-            const filename = el.dataset.filename!;
-            const filetype = el.dataset.filetype!;
-            if (confirm(`Are you sure you want to delete "${filename}"?`)) {
-                await deleteFile(filetype, filename);
-                await renderExplorer(windowEl);
-            }
-        });
-    });
 };
-const openFileExplorer = async (): Promise<HTMLElement> => {
-    let windowEl = openWindows.get('explorer');
-    if (windowEl) {
-        setActiveWindow(windowEl);
-        await renderExplorer(windowEl);
-        return windowEl;
+
+// Runs of inline content between blocks become paragraphs.
+const childrenToMarkdown = (parent: HTMLElement, separator = '\n\n'): string => {
+    const blocks: string[] = [];
+    let run = '';
+    const flushRun = () => {
+        if (run.trim()) blocks.push(run.trim());
+        run = '';
+    };
+    for (const child of Array.from(parent.childNodes)) {
+        const isBlock = BLOCK_TAGS.has(child.nodeName) || child.nodeName === 'UL' || child.nodeName === 'OL';
+        if (isBlock) {
+            flushRun();
+            blocks.push(blockToMarkdown(child as HTMLElement));
+        } else {
+            run += inlineToMarkdown(child);
+        }
+    }
+    flushRun();
+    return blocks.join(separator);
+};
+
+const htmlToMarkdown = (html: string): string => {
+    const doc = new DOMParser().parseFromString(cleanDocumentHtml(html), 'text/html');
+    return childrenToMarkdown(doc.body).replace(/\n{3,}/g, '\n\n').trim() + '\n';
+};
+
+const markdownInlineToHtml = (text: string): string => {
+    // Code spans and backslash escapes are set aside first so nothing inside them is treated as markup.
+    const codeSpans: string[] = [];
+    let html = escapeHtml(text)
+        .replace(/`([^`]+)`/g, (_, code) => `\u0000${codeSpans.push(code) - 1}\u0000`)
+        .replace(/\\([\\`*_[\]~])/g, (_, char) => `\u0001${char.charCodeAt(0)}\u0001`);
+    html = html
+        .replace(/!\[([^\]]*)\]\(([^)\s]+)\)/g, '<img src="$2" alt="$1">')
+        .replace(/\[([^\]]+)\]\(([^)\s]+)\)/g, '<a href="$2">$1</a>')
+        .replace(/\*\*(.+?)\*\*|__(.+?)__/g, (_, a, b) => `<strong>${a ?? b}</strong>`)
+        .replace(/\*(.+?)\*|\b_(.+?)_\b/g, (_, a, b) => `<em>${a ?? b}</em>`)
+        .replace(/~~(.+?)~~/g, '<s>$1</s>')
+        .replace(/&#60;u&#62;(.+?)&#60;\/u&#62;/g, '<u>$1</u>')
+        .replace(/\u0001(\d+)\u0001/g, (_, code) => String.fromCharCode(Number(code)));
+    return html.replace(/\u0000(\d+)\u0000/g, (_, index) => `<code>${codeSpans[Number(index)]}</code>`);
+};
+
+/** Converts common Markdown (headings, lists, quotes, code, emphasis, links, images) to document HTML. */
+const markdownToHtml = (markdown: string): string => {
+    const lines = markdown.replace(/\r\n?/g, '\n').split('\n');
+    const blocks: string[] = [];
+    let paragraph: string[] = [];
+    const flushParagraph = () => {
+        if (paragraph.length === 0) return;
+        // A line ending in two spaces or a backslash is a hard break; others wrap.
+        blocks.push(`<p>${paragraph.map((line, index) => {
+            const hardBreak = index < paragraph.length - 1 && /( {2,}|\\)$/.test(line);
+            return markdownInlineToHtml(line.replace(/( {2,}|\\)$/, '').trim()) + (index < paragraph.length - 1 ? (hardBreak ? '<br>' : ' ') : '');
+        }).join('')}</p>`);
+        paragraph = [];
+    };
+    for (let i = 0; i < lines.length; i++) {
+        const line = lines[i];
+        if (/^\s*```/.test(line)) {
+            flushParagraph();
+            const code: string[] = [];
+            while (++i < lines.length && !/^\s*```/.test(lines[i])) code.push(lines[i]);
+            blocks.push(`<pre>${escapeHtml(code.join('\n'))}</pre>`);
+            continue;
+        }
+        const heading = line.match(/^(#{1,6})\s+(.*?)\s*#*\s*$/);
+        if (heading) {
+            flushParagraph();
+            const level = Math.min(heading[1].length, 3);
+            blocks.push(`<h${level}>${markdownInlineToHtml(heading[2])}</h${level}>`);
+            continue;
+        }
+        if (/^\s*>/.test(line)) {
+            flushParagraph();
+            const quote: string[] = [];
+            for (; i < lines.length && /^\s*>/.test(lines[i]); i++) quote.push(lines[i].replace(/^\s*>\s?/, ''));
+            i--;
+            blocks.push(`<blockquote>${quote.map(markdownInlineToHtml).join('<br>')}</blockquote>`);
+            continue;
+        }
+        const listMatch = line.match(/^\s*([-*+]|\d+[.)])\s+/);
+        if (listMatch) {
+            flushParagraph();
+            const ordered = /\d/.test(listMatch[1]);
+            const pattern = ordered ? /^\s*\d+[.)]\s+/ : /^\s*[-*+]\s+/;
+            const items: string[] = [];
+            for (; i < lines.length && pattern.test(lines[i]); i++) items.push(lines[i].replace(pattern, ''));
+            i--;
+            const tag = ordered ? 'ol' : 'ul';
+            blocks.push(`<${tag}>${items.map(item => `<li>${markdownInlineToHtml(item)}</li>`).join('')}</${tag}>`);
+            continue;
+        }
+        if (!line.trim() || /^\s*([-*_])(\s*\1){2,}\s*$/.test(line)) {
+            flushParagraph();
+            continue;
+        }
+        paragraph.push(line);
     }
-    windowEl = createAppWindow('📁 File Explorer', '', 'explorer', true);
-    openWindows.set('explorer', windowEl);
-    const header = windowEl.querySelector('.window-header')!;
-    const viewControls = document.createElement('div');
-    viewControls.className = 'view-controls';
-    viewControls.innerHTML = `
-        <button class="view-toggle list active" data-view="list" title="List View">📄</button>
-        <button class="view-toggle grid" data-view="grid" title="Grid View">🖼️</button>
-    `;
-    header.prepend(viewControls);
-    const body = windowEl.querySelector('.window-body')! as HTMLElement;
-    body.dataset.view = 'list';
-    await renderExplorer(windowEl);
-    viewControls.querySelectorAll('.view-toggle').forEach(btn => {
-        btn.addEventListener('click', async () => {
-            const view = (btn as HTMLElement).dataset.view!;
-            body.dataset.view = view;
-            viewControls.querySelector('.active')?.classList.remove('active');
-            btn.classList.add('active');
-            await renderExplorer(windowEl!);
-        });
-    });
-    return windowEl;
+    flushParagraph();
+    return cleanDocumentHtml(blocks.join(''));
 };
-const createAppWindow = (title: string, content: string, app: string, noPadding = false) => {
-    const windowEl = document.createElement('div');
-    windowEl.className = 'app-window';
-    windowEl.style.zIndex = String(windowZIndex++);
-    windowEl.dataset.app = app;
-    windowEl.id = `window-${app}-${Date.now()}`;
-    windowEl.innerHTML = `
-        <header class="window-header">
-            <span class="window-title">${title}</span>
-            <div class="window-controls">
-                <button class="maximize-btn" title="Maximize/Restore">&#x26F6;</button>
-                <button class="close-btn" title="Close Window">&times;</button>
-            </div>
-        </header>
-        <div class="window-body ${noPadding ? 'no-padding' : ''}">${content}</div>
-    `;
-    desktop.appendChild(windowEl);
-    setActiveWindow(windowEl);
-    makeDraggable(windowEl);
-    windowEl.querySelector('.close-btn')?.addEventListener('click', () => {
-        windowEl.remove();
-        for (const [key, value] of openWindows.entries()) {
-            if (value === windowEl) {
-                openWindows.delete(key);
-                break;
-            }
+
+const textToHtml = (text: string): string => text.replace(/\r\n?/g, '\n').split(/\n{2,}/)
+    .filter(block => block.trim())
+    .map(block => `<p>${escapeHtml(block).replace(/\n/g, '<br>')}</p>`)
+    .join('');
+
+/** Converts an imported file's text to document HTML based on its extension. */
+const importToHtml = (filename: string, text: string): string => {
+    if (/\.(md|markdown)$/i.test(filename)) return markdownToHtml(text);
+    if (/\.html?$/i.test(filename)) return cleanDocumentHtml(text);
+    return textToHtml(text);
+};
+
+/**
+ * Lets the user pick .md, .txt or .html files and resolves to their names and converted HTML.
+ * Resolves to none if the user cancels, and rejects if a file can't be read.
+ */
+const pickDocumentsToImport = (): Promise<{ name: string, html: string }[]> => new Promise((resolve, reject) => {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = IMPORT_EXTENSIONS.join(',');
+    input.multiple = true;
+    input.addEventListener('change', async () => {
+        try {
+            const files = Array.from(input.files || []);
+            resolve(await Promise.all(files.map(async file => ({ name: file.name, html: importToHtml(file.name, await file.text()) }))));
+        } catch (error) {
+            reject(error);
         }
-        openFiles.delete(windowEl);
-        browserState.delete(windowEl);
     });
-    windowEl.querySelector('.maximize-btn')?.addEventListener('click', () => {
-        if (windowEl.classList.contains('maximized')) {
-            windowEl.classList.remove('maximized');
-            windowEl.style.top = windowEl.dataset.restoreTop || '';
-            windowEl.style.left = windowEl.dataset.restoreLeft || '';
-            windowEl.style.width = windowEl.dataset.restoreWidth || '';
-            windowEl.style.height = windowEl.dataset.restoreHeight || '';
-        } else {
-            const rect = windowEl.getBoundingClientRect();
-            const desktopRect = desktop.getBoundingClientRect();
-            windowEl.dataset.restoreTop = `${rect.top - desktopRect.top}px`;
-            windowEl.dataset.restoreLeft = `${rect.left - desktopRect.left}px`;
-            windowEl.dataset.restoreWidth = `${rect.width}px`;
-            windowEl.dataset.restoreHeight = `${rect.height}px`;
-            windowEl.classList.add('maximized');
-            windowEl.style.top = '';
-            windowEl.style.left = '';
-            windowEl.style.width = '';
-            windowEl.style.height = '';
-        }
+    input.addEventListener('cancel', () => resolve([]));
+    input.click();
+});
+
+const EXPORT_STYLES = `
+    body { font-family: Georgia, 'Times New Roman', serif; line-height: 1.6; color: #1a1a1a; max-width: 46rem; margin: 2rem auto; padding: 0 1rem; }
+    h1, h2, h3 { font-family: 'Helvetica Neue', Arial, sans-serif; line-height: 1.25; }
+    img { display: block; max-width: 100%; margin: 1rem auto; }
+    blockquote { border-left: 3px solid #ccc; margin-left: 0; padding-left: 1em; color: #555; }
+    pre { background: #f4f4f4; padding: 0.75em; white-space: pre-wrap; }
+    a { color: #0b57d0; }
+    @page { margin: 2cm; }
+    @media print { body { margin: 0; max-width: none; } h1, h2, h3 { break-after: avoid; } img, pre, blockquote { break-inside: avoid; } }
+`;
+
+// Images are already data URLs (or remote links), so the exported page is self-contained.
+const buildStandaloneHtml = (title: string, html: string): string => `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<title>${escapeHtml(title)}</title>
+<style>${EXPORT_STYLES}</style>
+</head>
+<body>
+${cleanDocumentHtml(html)}
+</body>
+</html>
+`;
+
+const downloadFile = (filename: string, content: string, mimeType: string) => {
+    const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+// Prints from a hidden frame so only the document is laid out; the browser's dialog offers "Save as PDF".
+const printDocument = (title: string, html: string) => {
+    const frame = document.createElement('iframe');
+    frame.className = 'print-frame';
+    frame.srcdoc = buildStandaloneHtml(title, html);
+    frame.addEventListener('load', () => {
+        frame.contentWindow!.focus();
+        frame.contentWindow!.print();
+        setTimeout(() => frame.remove(), 1000);
     });
-    windowEl.addEventListener('mousedown', () => setActiveWindow(windowEl));
-    const desktopRect = desktop.getBoundingClientRect();
-    const maxX = desktopRect.width - windowEl.offsetWidth - 20;
-    const maxY = desktopRect.height - windowEl.offsetHeight - 20;
-    windowEl.style.left = `${Math.random() * (maxX - 50) + 50}px`;
-    windowEl.style.top = `${Math.random() * (maxY - 50) + 50}px`;
-    return windowEl;
+    document.body.appendChild(frame);
 };
-const setActiveWindow = (windowEl: HTMLElement) => {
-    if (activeWindow === windowEl) return;
-    activeWindow = windowEl;
-    document.querySelectorAll('.app-window').forEach(win => {
-        if (win === windowEl) {
-            (win as HTMLElement).style.zIndex = String(windowZIndex++);
-            (win as HTMLElement).style.boxShadow = '0 10px 30px rgba(0, 0, 0, 0.5)';
-        } else {
-            (win as HTMLElement).style.boxShadow = '0 5px 15px rgba(0, 0, 0, 0.3)';
+
+/**
+ * Exports document HTML in the given format. Returns the name of the downloaded file; for PDF,
+ * nothing is downloaded, and it is the name the user is asked to save from the print dialog.
+ */
+const exportDocument = (name: string, html: string, format: string): string => {
+    const base = stripExtension(name);
+    switch (format) {
+        case 'md':
+            downloadFile(`${base}.md`, htmlToMarkdown(html), 'text/markdown');
+            return `${base}.md`;
+        case 'html':
+            downloadFile(`${base}.html`, buildStandaloneHtml(base, html), 'text/html');
+            return `${base}.html`;
+        case 'txt':
+            downloadFile(`${base}.txt`, htmlToText(html) + '\n', 'text/plain');
+            return `${base}.txt`;
+        case 'pdf':
+            printDocument(base, html);
+            return `${base}.pdf`;
+    }
+    throw new Error(`Unknown export format "${format}". Use one of: ${Object.keys(EXPORT_FORMATS).join(', ')}.`);
+};
+
+/** Imports files from disk into storage as documents and opens them in the Document Writer. */
+const importDocuments = async () => {
+    let imported: { name: string, html: string }[];
+    try {
+        imported = await pickDocumentsToImport();
+    } catch (error) {
+        console.error("Error importing files:", error);
+        showToast(`Could not import: ${(error as Error).message}`);
+        return;
+    }
+    for (const file of imported) {
+        const existing = getDatabase().files.documents[file.name];
+        if (existing) {
+            showToast(`"${file.name}" already exists. Review the change in the chat panel.`);
+            const replace = await requestConfirmation(`"${file.name}" already exists. Replace it with the imported file?`, renderChangePreview('documents', existing.content, file.html), 'Replace');
+            if (!replace) continue;
         }
+        if (!await saveFile('documents', file.name, file.html)) continue;
+        const windowEl = openDocumentWriter({ name: file.name, content: file.html });
+        windowEl.querySelector('.window-body')!.innerHTML = file.html;
+    }
+    const explorer = openWindows.get('explorer');
+    if (explorer && imported.length > 0) await renderExplorer(explorer);
+};
+
+const renderExportOptions = () => `<option value="">Export…</option>${Object.entries(EXPORT_FORMATS).map(([value, label]) => `<option value="${value}">${label}</option>`).join('')}`;
+
+// --- Permissions ---
+// Each action the model can take is allowed, needs confirmation ("ask") or is
+// denied. The policy is stored per user. Saves that would overwrite another
+// existing file always ask, whoever starts them.
+type Permission = 'allow' | 'ask' | 'deny';
+const defaultPermissions: Partial<Record<ActionName, Permission>> = { delete_file: 'ask' };
+
+const getPermissions = (): Record<ActionName, Permission> => {
+    const stored = getDatabase().settings?.permissions || {};
+    return Object.fromEntries(actionNames.map(name => [name, stored[name] || defaultPermissions[name] || 'allow'])) as Record<ActionName, Permission>;
+};
+
+const setPermission = (name: ActionName, permission: Permission) => {
+    const db = getDatabase();
+    db.settings = { ...db.settings, permissions: { ...db.settings?.permissions, [name]: permission } };
+    saveDatabase(db);
+};
+
+const fileTypeForWindow = (windowEl: HTMLElement): 'documents' | 'images' | null => {
+    const app = windowEl.dataset.app;
+    if (app === 'docs') return 'documents';
+    if (app === 'doodle' || app === 'studio') return 'images';
+    return null;
+};
+
+// Saving over a file that another window (or no window) has open would silently replace it.
+const isOverwrite = (windowEl: HTMLElement, name: string): boolean => {
+    const type = fileTypeForWindow(windowEl);
+    if (!type) return false;
+    return !!getDatabase().files[type][name] && openFiles.get(windowEl)?.name !== name;
+};
+
+/**
+ * Adds a confirmation card to the chat and resolves once the user answers.
+ * Stopping the current run counts as declining.
+ */
+const requestConfirmation = (title: string, preview: HTMLElement | null, confirmLabel = 'Allow', declineLabel = 'Cancel'): Promise<boolean> => {
+    const card = document.createElement('div');
+    card.className = 'chat-message assistant confirmation-card';
+    const titleEl = document.createElement('div');
+    titleEl.className = 'confirmation-title';
+    titleEl.textContent = title;
+    card.appendChild(titleEl);
+    if (preview) {
+        preview.classList.add('confirmation-preview');
+        card.appendChild(preview);
+    }
+    const actions = document.createElement('div');
+    actions.className = 'confirmation-actions';
+    const confirmBtn = document.createElement('button');
+    confirmBtn.className = 'confirm-btn';
+    confirmBtn.textContent = confirmLabel;
+    const declineBtn = document.createElement('button');
+    declineBtn.className = 'decline-btn';
+    declineBtn.textContent = declineLabel;
+    actions.append(confirmBtn, declineBtn);
+    card.appendChild(actions);
+    chatHistory.appendChild(card);
+    chatHistory.scrollTop = chatHistory.scrollHeight;
+    return new Promise(resolve => {
+        const signal = currentRun?.controller.signal;
+        const finish = (approved: boolean) => {
+            signal?.removeEventListener('abort', onAbort);
+            card.classList.add(approved ? 'approved' : 'declined');
+            actions.textContent = approved ? `✅ ${confirmLabel}` : `🚫 ${declineLabel === 'Cancel' ? 'Cancelled' : declineLabel}`;
+            resolve(approved);
+        };
+        const onAbort = () => finish(false);
+        signal?.addEventListener('abort', onAbort, { once: true });
+        confirmBtn.addEventListener('click', () => finish(true));
+        declineBtn.addEventListener('click', () => finish(false));
     });
 };
-const makeDraggable = (el: HTMLElement) => {
-    let pos1 = 0, pos2 = 0, pos3 = 0, pos4 = 0;
-    const header = el.querySelector('.window-header') as HTMLElement;
-    if (header) {
-        header.onmousedown = dragMouseDown;
+
+// Builds the preview for a confirmation card: what the action would change.
+const buildActionPreview = (action: Action): HTMLElement => {
+    const files = getDatabase().files;
+    if (action.action === 'delete_file') {
+        const type = files.documents[action.filename] ? 'documents' : files.images[action.filename] ? 'images' : null;
+        if (type) return renderChangePreview(type, files[type][action.filename].content, null);
     }
-    function dragMouseDown(e: MouseEvent) {
-        if ((e.target as HTMLElement).closest('button')) return;
-        if (el.classList.contains('maximized')) return;
-        e.preventDefault();
-        pos3 = e.clientX;
-        pos4 = e.clientY;
-        document.onmouseup = closeDragElement;
-        document.onmousemove = elementDrag;
+    if (action.action === 'save_active_file' && activeWindow) {
+        const pending = getWindowSaveContent(activeWindow);
+        if (pending) return renderChangePreview(pending.type, files[pending.type][action.filename]?.content ?? null, pending.content);
     }
-    function elementDrag(e: MouseEvent) {
-        if (el.classList.contains('maximized')) return;
-        e.preventDefault();
-        pos1 = pos3 - e.clientX;
-        pos2 = pos4 - e.clientY;
-        pos3 = e.clientX;
-        pos4 = e.clientY;
-        let newTop = el.offsetTop - pos2;
-        let newLeft = el.offsetLeft - pos1;
-        const desktopRect = desktop.getBoundingClientRect();
-        newLeft = Math.max(0, Math.min(newLeft, desktopRect.width - el.offsetWidth));
-        newTop = Math.max(0, Math.min(newTop, desktopRect.height - el.offsetHeight));
-        el.style.top = newTop + "px";
-        el.style.left = newLeft + "px";
+    const pre = document.createElement('pre');
+    pre.className = 'action-preview';
+    pre.textContent = JSON.stringify(action, null, 2);
+    return pre;
+};
+
+/** Throws unless the policy allows the action or the user confirms it. */
+const enforcePermission = async (action: Action) => {
+    const permission = getPermissions()[action.action];
+    if (permission === 'deny') {
+        throw new Error(`"${action.action}" is blocked by the user's permission policy.`);
     }
-    function closeDragElement() {
-        document.onmouseup = null;
-        document.onmousemove = null;
+    const overwrite = action.action === 'save_active_file' && !!activeWindow && isOverwrite(activeWindow, action.filename);
+    if (permission === 'allow' && !overwrite) return;
+    const title = overwrite
+        ? `The assistant wants to overwrite "${(action as { filename: string }).filename}".`
+        : `The assistant wants to run "${action.action}".`;
+    const approved = await requestConfirmation(title, buildActionPreview(action));
+    throwIfCancelled();
+    if (!approved) {
+        throw new Error('The user declined this action.');
     }
 };
-const showToast = (message: string) => {
-    document.body.dataset.toastMessage = message;
-    document.body.classList.add('show-toast');
-    setTimeout(() => {
-        document.body.classList.remove('show-toast');
-    }, 3000);
+
+/** Resolves to whether a user-initiated save may go ahead, asking first if it would overwrite another file. */
+const confirmUserSave = async (windowEl: HTMLElement, name: string, content: string): Promise<boolean> => {
+    const type = fileTypeForWindow(windowEl);
+    if (!type || !isOverwrite(windowEl, name)) return true;
+    showToast(`"${name}" already exists. Review the change in the chat panel.`);
+    return requestConfirmation(`"${name}" already exists. Overwrite it?`, renderChangePreview(type, getDatabase().files[type][name].content, content), 'Overwrite');
+};
+
+const renderPermissionsModal = () => {
+    const permissions = getPermissions();
+    permissionsList.innerHTML = '';
+    for (const name of actionNames) {
+        const item = document.createElement('li');
+        item.className = 'permission-item';
+        const label = document.createElement('span');
+        label.className = 'permission-name';
+        label.textContent = name;
+        label.title = actionSpecs[name].description;
+        const select = document.createElement('select');
+        select.dataset.action = name;
+        for (const value of ['allow', 'ask', 'deny'] as const) {
+            const option = document.createElement('option');
+            option.value = value;
+            option.textContent = value === 'ask' ? 'Ask first' : value === 'allow' ? 'Allow' : 'Deny';
+            select.appendChild(option);
+        }
+        select.value = permissions[name];
+        item.append(label, select);
+        permissionsList.appendChild(item);
+    }
 };
 
 // --- File & Session Management (localStorage-backed) ---
@@ -1299,19 +5763,82 @@ const getFiles = async () => {
     return Promise.resolve(getDatabase().files);
 };
 
-const saveFile = async (type: 'documents' | 'images', name: string, content: string) => {
+const DEFAULT_REVISION_LIMIT = 10;
+const MAX_REVISION_LIMIT = 50;
+
+const getRevisionLimit = (db = getDatabase()): number => db.settings?.revisionLimit ?? DEFAULT_REVISION_LIMIT;
+
+const toRevision = (file: StoredFile): Revision => ({
+    content: file.content,
+    modified: file.modified,
+    savedBy: file.savedBy || 'user',
+    size: new Blob([file.content, file.vector ? JSON.stringify(file.vector) : '']).size,
+    vector: file.vector,
+});
+
+const getHistorySize = (db: ReturnType<typeof getDatabase>): number => {
+    const files = [...Object.values(db.files.documents), ...Object.values(db.files.images)] as StoredFile[];
+    return files.reduce((total, file) => total + (file.revisions || []).reduce((sum, revision) => sum + revision.size, 0), 0);
+};
+
+/** Sets how many earlier versions are kept per file, pruning existing histories to match. */
+const setRevisionLimit = (limit: number) => {
+    const db = getDatabase();
+    db.settings = { ...db.settings, revisionLimit: limit };
+    for (const type of ['documents', 'images'] as const) {
+        for (const file of Object.values(db.files[type]) as StoredFile[]) {
+            if (file.revisions) file.revisions = file.revisions.slice(0, limit);
+        }
+    }
+    saveDatabase(db);
+    updateStorageIndicator();
+};
+
+// Puts a new version of a file into `db`, keeping the one it replaces in the history.
+const writeFileVersion = (db: ReturnType<typeof getDatabase>, type: 'documents' | 'images', name: string, content: string, savedBy: SavedBy, vector?: DoodleDocument) => {
+    const existing = db.files[type][name] as StoredFile | undefined;
+    let revisions = existing?.revisions || [];
+    // Saving identical content doesn't add a revision, and consecutive autosaves replace each other
+    // so they don't push manual saves out of the history.
+    const replacesAutosave = savedBy === 'autosave' && existing?.savedBy === 'autosave';
+    if (existing && existing.content !== content && !replacesAutosave) revisions = [toRevision(existing), ...revisions];
+    db.files[type][name] = { content, modified: Date.now(), savedBy, revisions: revisions.slice(0, getRevisionLimit(db)), vector };
+};
+
+// Resolves to whether the file was written; callers keep unsaved changes around when it wasn't.
+const saveFile = async (type: 'documents' | 'images', name: string, content: string, savedBy: SavedBy = 'user', vector?: DoodleDocument): Promise<boolean> => {
     try {
         const db = getDatabase();
-        db.files[type][name] = { content, modified: Date.now() };
-        saveDatabase(db);
+        writeFileVersion(db, type, name, content, savedBy, vector);
+        if (!saveDatabase(db)) return false;
+        // Autosaves run in the background, so they don't announce themselves.
+        if (savedBy === 'autosave') return true;
         showToast(`Saved as ${name}`);
         addMessage('assistant', `Saved ${type.slice(0, -1)} as "${name}"`);
         updateStorageIndicator();
+        return true;
     } catch (error) {
         const errorMessage = (error as Error).message;
         console.error("Error saving file:", error);
         showToast(`Could not save file: ${errorMessage}`);
         addMessage('assistant', `I couldn't save "${name}": ${errorMessage}`);
+        return false;
+    }
+};
+
+/** Shows new content for a file in any window that has it open. */
+const refreshOpenFile = (type: 'documents' | 'images', name: string, content: string, vector?: DoodleDocument) => {
+    for (const [win, fileInfo] of openFiles.entries()) {
+        if (fileInfo.name !== name || (fileInfo.type === 'docs') !== (type === 'documents')) continue;
+        markWindowClean(win);
+        if (fileInfo.type === 'docs') {
+            win.querySelector('.window-body')!.innerHTML = cleanDocumentHtml(content);
+        } else if (fileInfo.type === 'studio') {
+            const img = win.querySelector('.image-container img') as HTMLImageElement | null;
+            if (img) img.src = content;
+        } else {
+            loadDoodleFile(win, content, vector);
+        }
     }
 };
 
@@ -1344,6 +5871,11 @@ const saveSession = async () => {
                     content = canvas.toDataURL(); // Save the drawing as a base64 image string
                 }
             }
+            // A selected gallery image is saved with the studio state; otherwise the image on show is kept here.
+            if (win.dataset.app === 'studio') {
+                const studio = studioState.get(win);
+                content = studio?.images[studio.selected] ? '' : win.querySelector('.image-container')!.innerHTML;
+            }
 
             return {
                 key,
@@ -1353,18 +5885,32 @@ const saveSession = async () => {
                 top: win.style.top,
                 width: win.style.width,
                 height: win.style.height,
+                maximized: win.classList.contains('maximized'),
+                minimized: win.classList.contains('minimized'),
+                dirty: isWindowDirty(win),
+                snapped: win.dataset.snapped,
+                restore: {
+                    top: win.dataset.restoreTop,
+                    left: win.dataset.restoreLeft,
+                    width: win.dataset.restoreWidth,
+                    height: win.dataset.restoreHeight,
+                },
                 content: content, // This will be either HTML or a dataURL for the canvas
                 fileInfo: openFiles.get(win),
-                browserState: browserState.get(win)
+                browserState: browserState.get(win) satisfies SavedBrowserState | undefined,
+                studioState: getSessionStudioState(win),
+                vector: doodleState.get(win)?.document
             };
         }),
         chatHistory: chatHistory.innerHTML,
+        conversation,
     };
     try {
         const db = getDatabase();
         const sessionId = `session_${Date.now()}`;
         db.sessions[sessionId] = state;
-        saveDatabase(db);
+        // saveDatabase reports its own failure.
+        if (!saveDatabase(db)) return;
         showToast("Session saved!");
     } catch (error) {
         console.error("Error saving session:", error);
@@ -1377,9 +5923,11 @@ const loadSession = async (sessionId: string) => {
         const db = getDatabase();
         const state = db.sessions[sessionId];
         if (!state) throw new Error("Session not found in local storage.");
+        if (!await confirmUnsavedChanges(getDirtyWindows(), 'loading the session')) return;
         
         initializeAppState();
         chatHistory.innerHTML = state.chatHistory || '';
+        conversation = state.conversation || { summary: '', exchanges: [] };
         chatHistory.scrollTop = chatHistory.scrollHeight;
 
         for (const winData of state.openWindows) {
@@ -1387,30 +5935,20 @@ const loadSession = async (sessionId: string) => {
             switch(winData.app) {
                 case 'docs':
                     windowEl = openDocumentWriter(winData.fileInfo ? { name: winData.fileInfo.name, content: winData.content } : null);
-                    if (windowEl) windowEl.querySelector('.window-body')!.innerHTML = winData.content;
+                    if (windowEl) windowEl.querySelector('.window-body')!.innerHTML = cleanDocumentHtml(winData.content);
                     break;
                 case 'browser':
                     windowEl = openBrowser();
-                    if (winData.browserState) {
-                        browserState.set(windowEl, winData.browserState);
-                        if(winData.browserState.query) {
-                           renderSearchResults(windowEl);
-                        }
-                    }
+                    if (winData.browserState) restoreBrowserState(windowEl, winData.browserState);
                     break;
                 case 'doodle':
                     windowEl = openDoodlePad(); // Create the window first
                     if (winData.fileInfo) {
                         openFiles.set(windowEl, winData.fileInfo);
-                        windowEl.querySelector('.window-title')!.textContent = `🎨 ${winData.fileInfo.name}`;
-                    }
-                    const canvas = windowEl.querySelector('canvas');
-                    const ctx = canvas?.getContext('2d');
-                    if (canvas && ctx && winData.content.startsWith('data:image/png')) {
-                        const img = new Image();
-                        img.onload = () => ctx.drawImage(img, 0, 0);
-                        img.src = winData.content; // Load the drawing from dataURL
+                        setWindowTitle(windowEl, `🎨 ${winData.fileInfo.name}`);
                     }
+                    // Sessions saved before doodles kept strokes only have the drawing as a dataURL.
+                    loadDoodleFile(windowEl, winData.content.startsWith('data:image/png') ? winData.content : '', winData.vector);
                     break;
                 case 'studio':
                     if(winData.fileInfo) {
@@ -1418,7 +5956,8 @@ const loadSession = async (sessionId: string) => {
                     } else {
                         windowEl = openImageStudio();
                     }
-                    if(windowEl) windowEl.querySelector('.image-container')!.innerHTML = winData.content;
+                    if(windowEl) windowEl.querySelector('.image-container')!.innerHTML = cleanDocumentHtml(winData.content);
+                    if (windowEl && winData.studioState) restoreStudioState(windowEl, winData.studioState);
                     break;
                 case 'explorer':
                     windowEl = await openFileExplorer();
@@ -1429,6 +5968,16 @@ const loadSession = async (sessionId: string) => {
                 windowEl.style.top = winData.top;
                 windowEl.style.width = winData.width;
                 windowEl.style.height = winData.height;
+                if (winData.restore) {
+                    windowEl.dataset.restoreTop = winData.restore.top || '';
+                    windowEl.dataset.restoreLeft = winData.restore.left || '';
+                    windowEl.dataset.restoreWidth = winData.restore.width || '';
+                    windowEl.dataset.restoreHeight = winData.restore.height || '';
+                }
+                if (winData.snapped) windowEl.dataset.snapped = winData.snapped;
+                windowEl.classList.toggle('maximized', !!winData.maximized);
+                if (winData.minimized) minimizeWindow(windowEl);
+                if (winData.dirty) markWindowDirty(windowEl);
                 if(winData.fileInfo && !openFiles.has(windowEl)) openFiles.set(windowEl, winData.fileInfo);
             }
         }
@@ -1468,17 +6017,155 @@ const renderLoadSessionModal = async () => {
         
         savedSessionsList.innerHTML = sortedSessions.map(([id, _]) => `
             <li class="session-item">
-                <span class="session-item-date">Session from ${new Date(parseInt(id.split('_')[1])).toLocaleString()}</span>
+                <span class="session-item-date">Session from ${escapeHtml(new Date(parseInt(id.split('_')[1])).toLocaleString())}</span>
                 <div class="session-item-actions">
-                    <button class="load-session-btn" data-session-id="${id}">Load</button>
-                    <button class="delete-session-btn" data-session-id="${id}">Delete</button>
+                    <button class="load-session-btn" data-session-id="${escapeHtml(id)}">Load</button>
+                    <button class="delete-session-btn" data-session-id="${escapeHtml(id)}">Delete</button>
                 </div>
             </li>
         `).join('');
     } catch (error) {
         console.error("Error rendering sessions:", error);
-        savedSessionsList.innerHTML = `<li>Error loading sessions: ${(error as Error).message}</li>`;
+        savedSessionsList.innerHTML = `<li>Error loading sessions: ${escapeHtml((error as Error).message)}</li>`;
+    }
+};
+
+// --- Unsaved Changes & Autosave ---
+const AUTOSAVE_INTERVAL_MS = 30000;
+let autosaveTimer: number | null = null;
+let unsavedChoice: ((choice: 'save' | 'discard' | 'cancel') => void) | null = null;
+
+const isWindowDirty = (windowEl: HTMLElement) => windowEl.dataset.dirty === 'true';
+const getDirtyWindows = () => Array.from(openWindows.values()).filter(isWindowDirty);
+
+const markWindowDirty = (windowEl: HTMLElement) => {
+    if (isWindowDirty(windowEl)) return;
+    windowEl.dataset.dirty = 'true';
+    renderTaskbar();
+};
+
+const markWindowClean = (windowEl: HTMLElement) => {
+    if (!isWindowDirty(windowEl)) return;
+    delete windowEl.dataset.dirty;
+    renderTaskbar();
+};
+
+// Drafts keep unsaved new documents (ones without a filename yet) across reloads, keyed by window ID.
+const writeDraft = (db: ReturnType<typeof getDatabase>, windowEl: HTMLElement, content: string) => {
+    db.drafts = db.drafts || {};
+    db.drafts[windowEl.id] = { content, modified: Date.now() };
+};
+
+const saveDraft = (windowEl: HTMLElement, content: string) => {
+    const db = getDatabase();
+    writeDraft(db, windowEl, content);
+    saveDatabase(db);
+};
+
+const deleteDraft = (windowEl: HTMLElement) => {
+    const db = getDatabase();
+    if (!db.drafts?.[windowEl.id]) return;
+    delete db.drafts[windowEl.id];
+    saveDatabase(db);
+    updateStorageIndicator();
+};
+
+/** Saves dirty windows that have a file, and drafts for new documents. */
+const autosaveOpenFiles = async () => {
+    if (!currentUser) return;
+    for (const windowEl of getDirtyWindows()) {
+        const pending = getWindowSaveContent(windowEl);
+        if (!pending) continue;
+        const fileInfo = openFiles.get(windowEl);
+        if (fileInfo) {
+            if (await saveFile(pending.type, fileInfo.name, pending.content, 'autosave', pending.vector)) markWindowClean(windowEl);
+        } else if (windowEl.dataset.app === 'docs') {
+            saveDraft(windowEl, pending.content);
+        }
+    }
+    updateStorageIndicator();
+};
+
+/**
+ * Autosaves every dirty window in a single write, for when the page is closing:
+ * nothing after the unload handler returns is guaranteed to run.
+ */
+const autosaveOpenFilesNow = () => {
+    if (!currentUser) return;
+    const db = getDatabase();
+    for (const windowEl of getDirtyWindows()) {
+        const pending = getWindowSaveContent(windowEl);
+        if (!pending) continue;
+        const fileInfo = openFiles.get(windowEl);
+        if (fileInfo) {
+            writeFileVersion(db, pending.type, fileInfo.name, pending.content, 'autosave', pending.vector);
+        } else if (windowEl.dataset.app === 'docs') {
+            writeDraft(db, windowEl, pending.content);
+        }
+    }
+    saveDatabase(db);
+};
+
+const startAutosave = () => {
+    if (autosaveTimer !== null) clearInterval(autosaveTimer);
+    autosaveTimer = window.setInterval(autosaveOpenFiles, AUTOSAVE_INTERVAL_MS);
+};
+
+const stopAutosave = () => {
+    if (autosaveTimer !== null) clearInterval(autosaveTimer);
+    autosaveTimer = null;
+};
+
+/** Reopens drafts left by a previous visit as unsaved documents. */
+const recoverDrafts = () => {
+    const db = getDatabase();
+    const drafts = Object.entries(db.drafts || {}) as [string, { content: string, modified: number }][];
+    if (drafts.length === 0) return;
+    db.drafts = {};
+    for (const [, draft] of drafts) {
+        const windowEl = openDocumentWriter();
+        windowEl.querySelector('.window-body')!.innerHTML = cleanDocumentHtml(draft.content);
+        setWindowTitle(windowEl, '📝 Recovered draft');
+        markWindowDirty(windowEl);
+        db.drafts[windowEl.id] = draft;
+    }
+    saveDatabase(db);
+    showToast(`Recovered ${drafts.length} unsaved document${drafts.length === 1 ? '' : 's'}.`);
+};
+
+const discardWindowChanges = (windowEl: HTMLElement) => {
+    markWindowClean(windowEl);
+    deleteDraft(windowEl);
+};
+
+/**
+ * Asks the user what to do with unsaved windows before `action` (e.g. "closing", "logging out").
+ * Resolves to true when it's fine to go ahead: everything was saved or discarded.
+ */
+const confirmUnsavedChanges = async (windows: HTMLElement[], action: string): Promise<boolean> => {
+    const dirty = windows.filter(isWindowDirty);
+    if (dirty.length === 0) return true;
+    unsavedMessage.textContent = `${dirty.length === 1 ? 'This window has' : 'These windows have'} unsaved changes. Save before ${action}?`;
+    unsavedList.innerHTML = '';
+    for (const windowEl of dirty) {
+        const item = document.createElement('li');
+        item.textContent = getWindowTitle(windowEl);
+        unsavedList.appendChild(item);
+    }
+    unsavedModal.style.display = 'flex';
+    const choice = await new Promise<'save' | 'discard' | 'cancel'>(resolve => { unsavedChoice = resolve; });
+    unsavedChoice = null;
+    unsavedModal.style.display = 'none';
+    if (choice === 'cancel') return false;
+    if (choice === 'discard') {
+        dirty.forEach(discardWindowChanges);
+        return true;
+    }
+    for (const windowEl of dirty) {
+        setActiveWindow(windowEl);
+        if (!await saveWindowFile(windowEl)) return false;
     }
+    return true;
 };
 
 // --- Auth Logic ---
@@ -1551,6 +6238,62 @@ chatInput.addEventListener('keydown', (e) => {
     }
 });
 sendButton.addEventListener('click', handleUserInput);
+pauseRunButton.addEventListener('click', toggleRunPause);
+stepRunButton.addEventListener('click', stepRun);
+stopRunButton.addEventListener('click', stopRun);
+document.addEventListener('keydown', (e) => {
+    if (e.key === 'Escape' && unsavedChoice) {
+        unsavedChoice('cancel');
+    } else if (e.key === 'Escape' && isWindowSwitcherOpen()) {
+        closeWindowSwitcher(false);
+    } else if (e.key === 'Escape' && currentRun) {
+        stopRun();
+    }
+    // Most systems keep Alt+Tab for themselves, so Alt+` works too.
+    if (e.altKey && (e.key === 'Tab' || e.code === 'Backquote') && currentUser) {
+        e.preventDefault();
+        cycleWindowSwitcher(e.shiftKey);
+    }
+});
+document.addEventListener('keyup', (e) => {
+    if (e.key === 'Alt') closeWindowSwitcher(true);
+});
+window.addEventListener('blur', () => closeWindowSwitcher(false));
+showDesktopButton.addEventListener('click', toggleShowDesktop);
+document.getElementById('unsaved-save-btn')!.addEventListener('click', () => unsavedChoice?.('save'));
+document.getElementById('unsaved-discard-btn')!.addEventListener('click', () => unsavedChoice?.('discard'));
+document.getElementById('unsaved-cancel-btn')!.addEventListener('click', () => unsavedChoice?.('cancel'));
+window.addEventListener('beforeunload', (e) => {
+    if (getDirtyWindows().length === 0) return;
+    // Keep what we can; the browser shows its own leave-page prompt.
+    autosaveOpenFilesNow();
+    e.preventDefault();
+});
+providerSelect.value = activeProviderId;
+if (aiInitializationError) {
+    const geminiOption = providerSelect.querySelector('option[value="gemini"]') as HTMLOptionElement;
+    geminiOption.disabled = true;
+    geminiOption.title = aiInitializationError;
+}
+agentModeToggle.checked = agentSettings.enabled;
+agentMaxStepsInput.value = String(agentSettings.maxSteps);
+agentMaxStepsInput.max = String(MAX_AGENT_STEPS);
+agentModeToggle.addEventListener('change', () => {
+    agentSettings.enabled = agentModeToggle.checked;
+    saveAgentSettings();
+    showToast(`Agent mode ${agentSettings.enabled ? 'enabled' : 'disabled'}.`);
+});
+agentMaxStepsInput.addEventListener('change', () => {
+    const maxSteps = parseInt(agentMaxStepsInput.value, 10);
+    agentSettings.maxSteps = Number.isInteger(maxSteps) ? Math.max(1, Math.min(maxSteps, MAX_AGENT_STEPS)) : DEFAULT_AGENT_MAX_STEPS;
+    agentMaxStepsInput.value = String(agentSettings.maxSteps);
+    saveAgentSettings();
+});
+providerSelect.addEventListener('change', () => {
+    activeProviderId = providerSelect.value as ProviderId;
+    localStorage.setItem(PROVIDER_KEY, activeProviderId);
+    showToast(`AI provider: ${providers[activeProviderId].label}`);
+});
 iconDocs.addEventListener('click', () => openDocumentWriter());
 iconBrowser.addEventListener('click', openBrowser);
 iconDoodle.addEventListener('click', () => openDoodlePad());
@@ -1564,6 +6307,59 @@ loadButton.addEventListener('click', async () => {
 closeModalBtn.addEventListener('click', () => {
     loadSessionModal.style.display = 'none';
 });
+recordMacroButton.addEventListener('click', () => {
+    if (macroRecording) {
+        stopMacroRecording();
+    } else {
+        startMacroRecording();
+    }
+});
+macrosButton.addEventListener('click', () => {
+    renderMacrosModal();
+    macrosModal.style.display = 'flex';
+});
+closeMacrosBtn.addEventListener('click', () => {
+    macrosModal.style.display = 'none';
+});
+macrosList.addEventListener('click', async (e) => {
+    const target = e.target as HTMLElement;
+    const name = target.dataset.macro;
+    if (!name) return;
+    if (target.classList.contains('run-macro-btn')) {
+        macrosModal.style.display = 'none';
+        await runMacro(name);
+    } else if (target.classList.contains('delete-macro-btn')) {
+        if (confirm(`Are you sure you want to delete the macro "${name}"?`)) {
+            deleteMacro(name);
+            renderMacrosModal();
+        }
+    }
+});
+// Capture-phase listeners see the user's interactions before the apps' own handlers change the DOM.
+desktop.addEventListener('click', (e) => {
+    if (isRecordingUserInput()) recordClick(e.target as Element);
+}, true);
+desktop.addEventListener('beforeinput', (e) => recordTextInput(e as InputEvent), true);
+desktop.addEventListener('keydown', (e) => {
+    const target = e.target as HTMLElement;
+    if (e.key === 'Enter' && isRecordingUserInput() && target.matches('input') && macroRecording!.pendingText) {
+        flushRecordedText(true);
+        updateRecordButton();
+    }
+}, true);
+permissionsButton.addEventListener('click', () => {
+    renderPermissionsModal();
+    permissionsModal.style.display = 'flex';
+});
+closePermissionsBtn.addEventListener('click', () => {
+    permissionsModal.style.display = 'none';
+});
+permissionsList.addEventListener('change', (e) => {
+    const select = e.target as HTMLSelectElement;
+    if (!select.dataset.action) return;
+    setPermission(select.dataset.action as ActionName, select.value as Permission);
+    showToast(`${select.dataset.action}: ${select.options[select.selectedIndex].textContent}`);
+});
 savedSessionsList.addEventListener('click', async (e) => {
     const target = e.target as HTMLElement;
     const sessionId = target.dataset.sessionId;
@@ -1629,3 +6425,12 @@ closeDebugConsoleBtn.addEventListener('click', () => {
 
 // Make debug console draggable
 makeDraggable(debugConsole);
+
+// Exported for the tests in index.test.ts; the app itself doesn't import this module.
+export {
+    escapeHtml, safeUrl, renderImageTag, renderLink, cleanDocumentHtml,
+    renderSearchResults, renderExplorer, openFileExplorer, openBrowser,
+    initializeAppForUser, getDatabase, saveDatabase, saveFile, setRevisionLimit, openDocumentWriter,
+    executeAction, openImageStudio, renderPageView, saveSession, autosaveOpenFiles, confirmUnsavedChanges,
+    startMacroRecording, stopMacroRecording, getMacros,
+};